@@ -0,0 +1,279 @@
+import { getContext } from './context';
+import Logger from '@novice1/logger';
+import { DataTypes, Model, ModelStatic, Op, Sequelize, Transaction } from 'sequelize';
+
+const Log = Logger.debugger('@storehouse/sequelize:audit');
+
+// hooks added to the audited models, under the name "storehouse:audit"
+const HOOKS = [
+  'beforeBulkCreate',
+  'afterCreate',
+  'beforeBulkUpdate',
+  'afterUpdate',
+  'beforeBulkDestroy',
+  'afterDestroy',
+] as const;
+
+/**
+ * A change recorded in the audit log.
+ */
+export type AuditOperation = 'create' | 'update' | 'delete';
+
+/**
+ * Audit trail settings of a SequelizeManager, shared by its audited models.
+ *
+ * @example
+ * ```typescript
+ * const audit: AuditSettings = {
+ *   tableName: 'audit_log',
+ *   actor: () => getContext()?.userId
+ * };
+ * ```
+ */
+export interface AuditSettings {
+  /** Name of the audit log model. Defaults to "storehouse_audit_log". */
+  modelName?: string;
+  /** Table of the audit log. Defaults to the model name. */
+  tableName?: string;
+  /** Returns the actor of the current change. Defaults to the `userId` of the current {@link QueryContext}. */
+  actor?: () => string | number | undefined;
+}
+
+/**
+ * Audit options of a model, set with the `audit` property of its settings.
+ *
+ * @example
+ * ```typescript
+ * const users: ModelSettings = {
+ *   attributes: { ... },
+ *   options: { modelName: 'users' },
+ *   audit: { exclude: ['password'] }
+ * };
+ * ```
+ */
+export interface AuditOptions {
+  /** Attributes left out of the recorded changes, e.g. secrets */
+  exclude?: string[];
+  /** Operations recorded. Defaults to all. */
+  operations?: AuditOperation[];
+}
+
+/**
+ * Values of an attribute before and after a change, null when the entity did not exist.
+ */
+export interface AuditChange {
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * An entry of the audit log.
+ */
+export interface AuditEntry {
+  /** ID of the entry */
+  id: number;
+  /** Name of the changed model */
+  model: string;
+  /** Primary key of the entity, JSON for composite primary keys */
+  entityId: string;
+  /** The operation */
+  operation: AuditOperation;
+  /** Changed attributes, with their values before and after the change */
+  changes: Record<string, AuditChange>;
+  /** The actor of the change, if known */
+  actor: string | null;
+  /** When the change was recorded */
+  createdAt: Date;
+}
+
+/**
+ * Options of {@link SequelizeManager.getAuditHistory}.
+ */
+export interface AuditHistoryOptions {
+  /** Operations returned. Defaults to all. */
+  operations?: AuditOperation[];
+  /** Maximum number of entries */
+  limit?: number;
+  /** Chronological (`ASC`, default) or reverse chronological order (`DESC`) */
+  order?: 'ASC' | 'DESC';
+  /** Transaction to read in */
+  transaction?: Transaction;
+}
+
+/**
+ * Records the changes of audited models in a shared audit log model.
+ *
+ * @remarks
+ * Created by a SequelizeManager when one of its models is audited. Changes are recorded by model hooks,
+ * in the transaction of the change. Bulk creations, updates and deletions run the hooks of each instance.
+ */
+export class AuditTrail {
+  protected sequelize: Sequelize;
+  protected settings: AuditSettings;
+
+  /**
+   * The audit log model.
+   * @readonly
+   */
+  readonly model: ModelStatic<Model>;
+
+  /**
+   * @param sequelize - The connection of the manager
+   * @param settings - The audit settings
+   */
+  constructor(sequelize: Sequelize, settings: AuditSettings = {}) {
+    this.sequelize = sequelize;
+    this.settings = settings;
+    const modelName = settings.modelName || 'storehouse_audit_log';
+    this.model = sequelize.define(
+      modelName,
+      {
+        id: { type: DataTypes.INTEGER, autoIncrement: true, primaryKey: true },
+        model: { type: DataTypes.STRING, allowNull: false },
+        entityId: { type: DataTypes.STRING, allowNull: false },
+        operation: { type: DataTypes.STRING(16), allowNull: false },
+        // JSON columns are not supported by every dialect
+        changes: {
+          type: DataTypes.TEXT,
+          allowNull: false,
+          get() {
+            const value = this.getDataValue('changes');
+            return value ? JSON.parse(value) : {};
+          },
+          set(value: Record<string, AuditChange>) {
+            this.setDataValue('changes', JSON.stringify(value));
+          },
+        },
+        actor: { type: DataTypes.STRING, allowNull: true },
+      },
+      {
+        tableName: settings.tableName || modelName,
+        timestamps: true,
+        updatedAt: false,
+        indexes: [{ fields: ['model', 'entityId'] }],
+      }
+    );
+  }
+
+  /**
+   * Adds the hooks recording the changes of a model.
+   *
+   * @param model - The audited model
+   * @param options - The audit options of the model
+   */
+  attach(model: ModelStatic<Model>, options: AuditOptions = {}): void {
+    const operations = options.operations || ['create', 'update', 'delete'];
+    const exclude = options.exclude || [];
+    const individualHooks = (bulkOptions: { individualHooks?: boolean }) => {
+      bulkOptions.individualHooks = true;
+    };
+
+    if (operations.includes('create')) {
+      model.addHook('beforeBulkCreate', 'storehouse:audit', (_instances, bulkOptions) => individualHooks(bulkOptions));
+      model.addHook('afterCreate', 'storehouse:audit', (instance, hookOptions) =>
+        this.record(instance, 'create', exclude, hookOptions.transaction)
+      );
+    }
+    if (operations.includes('update')) {
+      model.addHook('beforeBulkUpdate', 'storehouse:audit', individualHooks);
+      model.addHook('afterUpdate', 'storehouse:audit', (instance, hookOptions) =>
+        this.record(instance, 'update', exclude, hookOptions.transaction)
+      );
+    }
+    if (operations.includes('delete')) {
+      model.addHook('beforeBulkDestroy', 'storehouse:audit', individualHooks);
+      model.addHook('afterDestroy', 'storehouse:audit', (instance, hookOptions) =>
+        this.record(instance, 'delete', exclude, hookOptions.transaction)
+      );
+    }
+    Log.debug(`auditing model "${model.name}" (${operations.join(', ')})`);
+  }
+
+  /**
+   * Removes the hooks recording the changes of a model.
+   *
+   * @param model - The audited model
+   */
+  detach(model: ModelStatic<Model>): void {
+    HOOKS.forEach((hookType) => model.removeHook(hookType, 'storehouse:audit'));
+    Log.debug(`stopped auditing model "${model.name}"`);
+  }
+
+  /**
+   * Lists the recorded changes of an entity.
+   *
+   * @param modelName - The name of the model
+   * @param primaryKey - The primary key of the entity, an object for composite primary keys
+   * @param options - History options
+   *
+   * @returns The entries, in chronological order unless specified otherwise
+   */
+  async getHistory(modelName: string, primaryKey: unknown, options: AuditHistoryOptions = {}): Promise<AuditEntry[]> {
+    const model = this.sequelize.isDefined(modelName) ? this.sequelize.model(modelName) : undefined;
+    const order = options.order || 'ASC';
+    const entries = await this.model.findAll({
+      where: {
+        model: modelName,
+        entityId: getEntityId(model, primaryKey),
+        ...(options.operations ? { operation: { [Op.in]: options.operations } } : {}),
+      },
+      order: [
+        ['createdAt', order],
+        ['id', order],
+      ],
+      limit: options.limit,
+      transaction: options.transaction,
+    });
+    return entries.map((entry) => entry.get({ plain: true }) as AuditEntry);
+  }
+
+  protected async record(
+    instance: Model,
+    operation: AuditOperation,
+    exclude: string[],
+    transaction?: Transaction | null
+  ): Promise<void> {
+    const model = instance.constructor as ModelStatic<Model>;
+    // stored values, so that encrypted attributes are recorded encrypted
+    const values = instance.dataValues as Record<string, unknown>;
+    const changes: Record<string, AuditChange> = {};
+    const fields = operation === 'update' ? (instance.changed() as string[]) || [] : Object.keys(model.getAttributes());
+    fields
+      .filter((field) => !exclude.includes(field))
+      .forEach((field) => {
+        const before = operation === 'update' ? instance.previous(field) : values[field];
+        changes[field] = {
+          before: operation === 'create' ? null : (before ?? null),
+          after: operation === 'delete' ? null : (values[field] ?? null),
+        };
+      });
+    if (!Object.keys(changes).length) {
+      return;
+    }
+
+    const actor = this.settings.actor ? this.settings.actor() : getContext()?.userId;
+    await this.model.create(
+      {
+        model: model.name,
+        entityId: getEntityId(model, values),
+        operation,
+        changes,
+        actor: actor === undefined || actor === null ? null : String(actor),
+      },
+      { transaction }
+    );
+  }
+}
+
+// single primary keys are stored as strings, composite ones as JSON in declaration order
+function getEntityId(model: ModelStatic<Model> | undefined, primaryKey: unknown): string {
+  const keys = model?.primaryKeyAttributes || [];
+  if (primaryKey && typeof primaryKey === 'object') {
+    const values = primaryKey as Record<string, unknown>;
+    if (keys.length === 1) {
+      return String(values[keys[0]]);
+    }
+    return JSON.stringify(Object.fromEntries(keys.map((key) => [key, values[key]])));
+  }
+  return String(primaryKey);
+}
@@ -0,0 +1,401 @@
+import Logger from '@novice1/logger';
+import { createHash, randomUUID } from 'node:crypto';
+import { CountOptions, FindOptions, Model, ModelStatic, NonNullFindOptions, Transaction } from 'sequelize';
+
+const Log = Logger.debugger('@storehouse/sequelize:cache');
+
+// hooks added to the cached models, under the name "storehouse:cache"
+const HOOKS = [
+  'afterCreate',
+  'afterUpdate',
+  'afterDestroy',
+  'afterUpsert',
+  'afterBulkCreate',
+  'afterBulkUpdate',
+  'afterBulkDestroy',
+  'afterBulkRestore',
+] as const;
+
+// options of findAll and count changing their result
+const KEY_OPTIONS = [
+  'where',
+  'attributes',
+  'order',
+  'limit',
+  'offset',
+  'group',
+  'having',
+  'paranoid',
+  'plain',
+  'raw',
+  'nest',
+  'distinct',
+  'col',
+  // values of the literals of the query
+  'replacements',
+  'bind',
+];
+
+/**
+ * Storage of the query cache. Methods can be synchronous or return promises, e.g. for a Redis store.
+ *
+ * @remarks
+ * Values are plain objects and arrays whose dates must be kept as Date objects.
+ */
+export interface CacheStore {
+  /** Returns the value of a key, or undefined if it is missing or expired */
+  get(key: string): unknown | Promise<unknown>;
+  /** Stores a value, for `ttl` milliseconds if set */
+  set(key: string, value: unknown, ttl?: number): void | Promise<void>;
+  /** Removes a key */
+  delete(key: string): void | Promise<void>;
+}
+
+/**
+ * Query cache settings of a SequelizeManager, shared by its cached models.
+ *
+ * @example
+ * ```typescript
+ * const cache: CacheSettings = {
+ *   ttl: 300000,
+ *   maxEntries: 5000
+ * };
+ * ```
+ */
+export interface CacheSettings {
+  /** Storage of the entries. Defaults to a {@link MemoryCacheStore} of `maxEntries` entries. */
+  store?: CacheStore;
+  /** Maximum number of entries of the default store. Defaults to 1000. */
+  maxEntries?: number;
+  /** Default time to live of the entries in milliseconds. Defaults to 60000. */
+  ttl?: number;
+  /** Prefix of the keys, followed by the manager and model names. Defaults to "storehouse". */
+  prefix?: string;
+}
+
+/**
+ * Cache options of a model, set with the `cache` property of its settings.
+ */
+export interface ModelCacheOptions {
+  /** Time to live of the entries in milliseconds. Defaults to `ttl` of the manager settings. */
+  ttl?: number;
+}
+
+/**
+ * Hits and misses of the query cache.
+ */
+export interface CacheCounters {
+  /** Queries answered from the cache */
+  hits: number;
+  /** Queries run against the database, then cached */
+  misses: number;
+}
+
+/**
+ * Statistics of the query cache, as returned by {@link SequelizeManager.getCacheStats}.
+ */
+export interface CacheStats extends CacheCounters {
+  /** Ratio of hits to cacheable queries, 0 when there were none */
+  hitRate: number;
+  /** Counters indexed by model name */
+  models: Record<string, CacheCounters>;
+}
+
+interface CachedRows {
+  rows: unknown;
+}
+
+interface MemoryEntry {
+  value: unknown;
+  expires?: number;
+}
+
+/**
+ * In-memory least recently used cache store with per-entry time to live.
+ *
+ * @example
+ * ```typescript
+ * const store = new MemoryCacheStore(10000);
+ * ```
+ */
+export class MemoryCacheStore implements CacheStore {
+  protected entries = new Map<string, MemoryEntry>();
+  protected maxEntries: number;
+
+  /**
+   * @param maxEntries - Maximum number of entries, the least recently used are evicted first
+   */
+  constructor(maxEntries = 1000) {
+    this.maxEntries = maxEntries;
+  }
+
+  /**
+   * Number of entries, expired ones included until they are read or evicted.
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): unknown {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (entry.expires && entry.expires <= Date.now()) {
+      return undefined;
+    }
+    // the entries are kept from the least to the most recently used
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: unknown, ttl?: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expires: ttl ? Date.now() + ttl : undefined });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+}
+
+// JSON with the operator symbols and the class of literals, functions and columns
+function serialize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(serialize);
+  }
+  if (value instanceof Date) {
+    return { $date: value.toISOString() };
+  }
+  if (Buffer.isBuffer(value)) {
+    return { $buffer: value.toString('base64') };
+  }
+  if (value && typeof value === 'object') {
+    const source = value as Record<PropertyKey, unknown>;
+    const serialized: Record<string, unknown> = {};
+    if (value.constructor !== Object) {
+      serialized.$class = value.constructor?.name;
+    }
+    Object.keys(source).forEach((key) => (serialized[key] = serialize(source[key])));
+    Object.getOwnPropertySymbols(source).forEach((op) => (serialized[`$${op.description}`] = serialize(source[op])));
+    return serialized;
+  }
+  return value;
+}
+
+/**
+ * Caches the results of `findAll` (and so `findOne` and `findByPk`) and `count` of models,
+ * and invalidates them when the models change.
+ *
+ * @remarks
+ * Created by a SequelizeManager when one of its models is cached. Queries with a transaction, a lock,
+ * `include` or `rejectOnEmpty` are not cached, nor are the queries of models with `afterFind` hooks.
+ * Each model has a version stored with its entries: the create, update, destroy and upsert hooks of the model,
+ * bulk ones included, replace the version, which orphans the entries until they expire. Within a transaction, the version is replaced again after the commit.
+ */
+export class QueryCache {
+  protected namespace: string;
+  protected settings: CacheSettings;
+  protected store: CacheStore;
+  protected counters = new Map<string, CacheCounters>();
+  protected models = new Map<string, ModelCacheOptions>();
+  protected methods = new Map<ModelStatic<Model>, Pick<ModelStatic<Model>, 'findAll' | 'count'>>();
+
+  /**
+   * @param managerName - Name of the manager, part of the keys
+   * @param settings - The cache settings
+   */
+  constructor(managerName: string, settings: CacheSettings = {}) {
+    this.namespace = `${settings.prefix || 'storehouse'}:${managerName}`;
+    this.settings = settings;
+    this.store = settings.store || new MemoryCacheStore(settings.maxEntries);
+  }
+
+  /**
+   * Caches the queries of a model and adds the hooks invalidating them.
+   *
+   * @param model - The cached model
+   * @param options - The cache options of the model
+   */
+  attach(model: ModelStatic<Model>, options: ModelCacheOptions = {}): void {
+    this.models.set(model.name, options);
+    const modelName = model.name;
+    const findAll = model.findAll;
+    const count = model.count;
+    const query = this.query.bind(this);
+    this.methods.set(model, { findAll, count });
+
+    // the model can be a subclass, e.g. bound to a schema
+    model.findAll = function (this: ModelStatic<Model>, findOptions?: FindOptions) {
+      return query(this, modelName, 'findAll', findOptions, () => findAll.call(this, findOptions));
+    } as typeof model.findAll;
+    model.count = function (this: ModelStatic<Model>, countOptions?: CountOptions) {
+      return query(this, modelName, 'count', countOptions, () => count.call(this, countOptions));
+    } as typeof model.count;
+
+    const invalidate = async (hookOptions?: { transaction?: Transaction | null }) => {
+      await this.invalidate(modelName);
+      // entries cached from the committed rows before the commit are stale after it;
+      // Sequelize also runs this after a failed commit, which only costs an extra invalidation
+      hookOptions?.transaction?.afterCommit(() =>
+        Promise.resolve(this.invalidate(modelName)).catch((error) =>
+          Log.debug(`could not invalidate model "${modelName}"`, error)
+        )
+      );
+    };
+    model.addHook('afterCreate', 'storehouse:cache', (_instance, hookOptions) => invalidate(hookOptions));
+    model.addHook('afterUpdate', 'storehouse:cache', (_instance, hookOptions) => invalidate(hookOptions));
+    model.addHook('afterDestroy', 'storehouse:cache', (_instance, hookOptions) => invalidate(hookOptions));
+    model.addHook('afterUpsert', 'storehouse:cache', (_result, hookOptions) => invalidate(hookOptions));
+    model.addHook('afterBulkCreate', 'storehouse:cache', (_instances, hookOptions) => invalidate(hookOptions));
+    model.addHook('afterBulkUpdate', 'storehouse:cache', (hookOptions) => invalidate(hookOptions));
+    model.addHook('afterBulkDestroy', 'storehouse:cache', (hookOptions) => invalidate(hookOptions));
+    model.addHook('afterBulkRestore', 'storehouse:cache', (hookOptions) => invalidate(hookOptions));
+    Log.debug(`caching model "${modelName}"`);
+  }
+
+  /**
+   * Stops caching the queries of a model: restores its methods, removes its hooks and invalidates its entries.
+   *
+   * @param model - The cached model
+   */
+  detach(model: ModelStatic<Model>): void {
+    const modelName = model.name;
+    const methods = this.methods.get(model);
+    if (methods) {
+      model.findAll = methods.findAll;
+      model.count = methods.count;
+      this.methods.delete(model);
+    }
+    HOOKS.forEach((hookType) => model.removeHook(hookType, 'storehouse:cache'));
+    this.models.delete(modelName);
+    this.counters.delete(modelName);
+    // a model registered again under the name must not read these entries
+    Promise.resolve(this.invalidate(modelName)).catch((error) =>
+      Log.debug(`could not invalidate model "${modelName}"`, error)
+    );
+    Log.debug(`stopped caching model "${modelName}"`);
+  }
+
+  /**
+   * Lists the names of the cached models.
+   */
+  getModelNames(): string[] {
+    return Array.from(this.models.keys());
+  }
+
+  /**
+   * Invalidates the cached queries of a model.
+   *
+   * @param modelName - The name of the model
+   */
+  async invalidate(modelName: string): Promise<void> {
+    await this.store.set(`${this.namespace}:${modelName}:version`, randomUUID());
+    Log.debug(`invalidated model "${modelName}"`);
+  }
+
+  /**
+   * Returns the hits and misses, in total and per model.
+   */
+  getStats(): CacheStats {
+    const models: Record<string, CacheCounters> = {};
+    let hits = 0;
+    let misses = 0;
+    this.counters.forEach((counters, name) => {
+      models[name] = { ...counters };
+      hits += counters.hits;
+      misses += counters.misses;
+    });
+    return { hits, misses, hitRate: hits + misses ? hits / (hits + misses) : 0, models };
+  }
+
+  /**
+   * Clears the hits and misses.
+   */
+  resetStats(): void {
+    this.counters.clear();
+  }
+
+  protected async query(
+    model: ModelStatic<Model>,
+    modelName: string,
+    method: 'findAll' | 'count',
+    options: FindOptions | undefined,
+    run: () => Promise<unknown>
+  ): Promise<unknown> {
+    // a hit would skip the afterFind hooks and the empty result check of rejectOnEmpty
+    if (
+      options?.transaction ||
+      options?.lock ||
+      options?.include ||
+      (options as NonNullFindOptions | undefined)?.rejectOnEmpty ||
+      model.hasHook('afterFind')
+    ) {
+      return run();
+    }
+    const key = await this.getKey(model, modelName, method, options);
+    const cached = (await this.store.get(key)) as CachedRows | undefined;
+    if (cached) {
+      this.increment(modelName, 'hits');
+      const rows = structuredClone(cached.rows);
+      return method === 'findAll' ? this.restore(model, rows, options) : rows;
+    }
+    this.increment(modelName, 'misses');
+    const result = await run();
+    const rows = Array.isArray(result) ? result.map(getValues) : getValues(result);
+    await this.store.set(key, { rows: structuredClone(rows) }, this.getTtl(modelName));
+    return result;
+  }
+
+  protected getTtl(modelName: string): number {
+    return this.models.get(modelName)?.ttl ?? this.settings.ttl ?? 60000;
+  }
+
+  protected increment(modelName: string, counter: keyof CacheCounters): void {
+    const counters = this.counters.get(modelName) || { hits: 0, misses: 0 };
+    counters[counter]++;
+    this.counters.set(modelName, counters);
+  }
+
+  protected async getKey(
+    model: ModelStatic<Model>,
+    modelName: string,
+    method: string,
+    options: object = {}
+  ): Promise<string> {
+    const versionKey = `${this.namespace}:${modelName}:version`;
+    let version = (await this.store.get(versionKey)) as string | undefined;
+    if (!version) {
+      // a missing version, e.g. evicted, must not bring back entries of an older version
+      version = randomUUID();
+      await this.store.set(versionKey, version);
+    }
+    const query = {
+      method,
+      table: model.getTableName(),
+      scope: (model as unknown as { _scope?: unknown })._scope,
+      options: KEY_OPTIONS.filter((key) => key in options).map((key) => [key, options[key as keyof typeof options]]),
+    };
+    const hash = createHash('sha256')
+      .update(JSON.stringify(serialize(query)))
+      .digest('base64url');
+    return `${this.namespace}:${modelName}:${version}:${hash}`;
+  }
+
+  protected restore(model: ModelStatic<Model>, rows: unknown, options?: FindOptions): unknown {
+    if (options?.raw || !rows) {
+      return rows;
+    }
+    // built as if they were returned by a query
+    const instances = model.bulkBuild([rows].flat() as Record<string, unknown>[], { isNewRecord: false, raw: true });
+    return Array.isArray(rows) ? instances : instances[0];
+  }
+}
+
+function getValues(row: unknown): unknown {
+  return row instanceof Model ? row.dataValues : row;
+}
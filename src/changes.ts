@@ -0,0 +1,320 @@
+import Logger from '@novice1/logger';
+import { DataTypes, FindOptions, Model, ModelStatic, Sequelize, Transaction } from 'sequelize';
+
+const Log = Logger.debugger('@storehouse/sequelize:changes');
+
+// hooks added to the tracked models, under the name "storehouse:changes"
+const HOOKS = [
+  'beforeBulkCreate',
+  'beforeBulkUpdate',
+  'beforeBulkDestroy',
+  'afterCreate',
+  'afterUpdate',
+  'afterDestroy',
+] as const;
+
+/**
+ * Type of a change event, also its event name.
+ */
+export type ModelChangeType = 'created' | 'updated' | 'deleted';
+
+/**
+ * Payload of the `created`, `updated` and `deleted` events of a SequelizeManager.
+ */
+export interface ModelChangeEvent {
+  /** The type of change */
+  type: ModelChangeType;
+  /** Name of the manager */
+  manager: string;
+  /** Name of the changed model */
+  model: string;
+  /** Primary key of the entity, an object for composite primary keys */
+  primaryKey: unknown;
+  /** Attributes set on creation or changed by an update, empty on deletion */
+  changed: string[];
+  /** When the change was made */
+  occurredAt: Date;
+}
+
+/**
+ * Transactional outbox settings: events are stored in a table in the transaction of the change,
+ * then dispatched by {@link SequelizeManager.dispatchOutbox} or a poller.
+ */
+export interface OutboxSettings {
+  /** Name of the outbox model. Defaults to "storehouse_outbox". */
+  modelName?: string;
+  /** Table of the outbox. Defaults to the model name. */
+  tableName?: string;
+  /** Interval in milliseconds between two dispatches. Defaults to no poller. */
+  pollInterval?: number;
+  /** Maximum number of events dispatched at once. Defaults to 100. */
+  batchSize?: number;
+}
+
+/**
+ * Change event settings of a SequelizeManager.
+ *
+ * @example
+ * ```typescript
+ * const changeEvents: ChangeEventsSettings = {
+ *   models: ['movies'],
+ *   outbox: { pollInterval: 1000 }
+ * };
+ * ```
+ */
+export interface ChangeEventsSettings {
+  /** Names of the models emitting events. Defaults to every model of the manager. */
+  models?: string[];
+  /** Stores the events in an outbox table instead of emitting them after the commit */
+  outbox?: boolean | OutboxSettings;
+}
+
+/**
+ * Turns the hooks of models into {@link ModelChangeEvent}s, emitted once the transaction of the change
+ * commits, or stored in a transactional outbox and emitted when it is dispatched.
+ *
+ * @remarks
+ * Created by a SequelizeManager with `changeEvents` settings. Bulk creations, updates and deletions run the hooks
+ * of each instance. The events of a savepoint are dropped if it is rolled back, and wait for the outermost
+ * transaction otherwise. Outbox events are delivered at least once: an event whose listener throws is dispatched again.
+ */
+export class ChangeTracker {
+  protected sequelize: Sequelize;
+  protected managerName: string;
+  protected settings: ChangeEventsSettings;
+  protected emit: (event: ModelChangeEvent) => void;
+  protected pending = new WeakMap<Transaction, ModelChangeEvent[]>();
+  protected timer?: ReturnType<typeof setInterval>;
+  protected dispatching?: Promise<number>;
+
+  /**
+   * The outbox model, if the outbox is enabled.
+   * @readonly
+   */
+  readonly outbox?: ModelStatic<Model>;
+
+  /**
+   * @param sequelize - The connection of the manager
+   * @param managerName - Name of the manager, set in the events
+   * @param settings - The change event settings
+   * @param emit - Emits an event to the listeners of the manager
+   */
+  constructor(
+    sequelize: Sequelize,
+    managerName: string,
+    settings: ChangeEventsSettings,
+    emit: (event: ModelChangeEvent) => void
+  ) {
+    this.sequelize = sequelize;
+    this.managerName = managerName;
+    this.settings = settings;
+    this.emit = emit;
+    if (settings.outbox) {
+      const outbox = this.getOutboxSettings();
+      const modelName = outbox.modelName || 'storehouse_outbox';
+      this.outbox = sequelize.define(
+        modelName,
+        {
+          id: { type: DataTypes.INTEGER, autoIncrement: true, primaryKey: true },
+          type: { type: DataTypes.STRING(16), allowNull: false },
+          model: { type: DataTypes.STRING, allowNull: false },
+          // JSON columns are not supported by every dialect
+          payload: { type: DataTypes.TEXT, allowNull: false },
+        },
+        { tableName: outbox.tableName || modelName, timestamps: true, updatedAt: false }
+      );
+    }
+  }
+
+  /**
+   * Checks whether a model emits events.
+   *
+   * @param modelName - The name of the model
+   */
+  tracks(modelName: string): boolean {
+    return modelName !== this.outbox?.name && (!this.settings.models || this.settings.models.includes(modelName));
+  }
+
+  /**
+   * Adds the hooks turning the changes of a model into events.
+   *
+   * @param model - The model
+   */
+  attach(model: ModelStatic<Model>): void {
+    const individualHooks = (bulkOptions: { individualHooks?: boolean }) => {
+      bulkOptions.individualHooks = true;
+    };
+    model.addHook('beforeBulkCreate', 'storehouse:changes', (_instances, options) => individualHooks(options));
+    model.addHook('beforeBulkUpdate', 'storehouse:changes', individualHooks);
+    model.addHook('beforeBulkDestroy', 'storehouse:changes', individualHooks);
+    model.addHook('afterCreate', 'storehouse:changes', (instance, options) =>
+      this.track(instance, 'created', options.transaction)
+    );
+    model.addHook('afterUpdate', 'storehouse:changes', (instance, options) =>
+      this.track(instance, 'updated', options.transaction)
+    );
+    model.addHook('afterDestroy', 'storehouse:changes', (instance, options) =>
+      this.track(instance, 'deleted', options.transaction)
+    );
+    Log.debug(`[${this.managerName}]`, `tracking changes of model "${model.name}"`);
+  }
+
+  /**
+   * Removes the hooks turning the changes of a model into events.
+   *
+   * @param model - The model
+   */
+  detach(model: ModelStatic<Model>): void {
+    HOOKS.forEach((hookType) => model.removeHook(hookType, 'storehouse:changes'));
+    Log.debug(`[${this.managerName}]`, `stopped tracking changes of model "${model.name}"`);
+  }
+
+  /**
+   * Emits the events stored in the outbox, oldest first, and removes them.
+   * Rows are locked while they are dispatched, and skipped by other processes where the dialect allows it.
+   *
+   * @returns The number of dispatched events
+   */
+  async dispatch(): Promise<number> {
+    const outbox = this.outbox;
+    if (!outbox) {
+      return 0;
+    }
+    const dialect = this.sequelize.getDialect();
+    const skipLocked = dialect === 'postgres' || dialect === 'mysql' || dialect === 'mariadb';
+    let failure: unknown;
+    const dispatched = await this.sequelize.transaction(async (transaction) => {
+      const options: FindOptions = {
+        order: [['id', 'ASC']],
+        limit: this.getOutboxSettings().batchSize || 100,
+        transaction,
+        ...(skipLocked ? { lock: true, skipLocked: true } : {}),
+      };
+      const ids: unknown[] = [];
+      for (const row of await outbox.findAll(options)) {
+        const event = JSON.parse(row.get('payload') as string) as ModelChangeEvent;
+        try {
+          this.emit({ ...event, occurredAt: new Date(event.occurredAt) });
+        } catch (error) {
+          // the events emitted before the failing one are not dispatched again
+          failure = error;
+          break;
+        }
+        ids.push(row.get('id'));
+      }
+      if (ids.length) {
+        await outbox.destroy({ where: { id: ids }, transaction });
+      }
+      return ids.length;
+    });
+    if (failure) {
+      throw failure;
+    }
+    return dispatched;
+  }
+
+  /**
+   * Starts dispatching the outbox every `pollInterval` milliseconds.
+   */
+  start(): void {
+    const interval = this.getOutboxSettings().pollInterval;
+    if (!this.outbox || !interval || this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      if (this.dispatching) {
+        return;
+      }
+      this.dispatching = this.dispatch()
+        .catch((error) => {
+          Log.debug(`[${this.managerName}]`, 'outbox dispatch failed', error);
+          return 0;
+        })
+        .finally(() => {
+          this.dispatching = undefined;
+        });
+    }, interval);
+    this.timer.unref?.();
+  }
+
+  /**
+   * Stops the outbox poller.
+   */
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  protected getOutboxSettings(): OutboxSettings {
+    return typeof this.settings.outbox === 'object' ? this.settings.outbox : {};
+  }
+
+  protected async track(instance: Model, type: ModelChangeType, transaction?: Transaction | null): Promise<void> {
+    const model = instance.constructor as ModelStatic<Model>;
+    const values = instance.dataValues as Record<string, unknown>;
+    let changed: string[] = [];
+    if (type === 'created') {
+      changed = Object.keys(model.getAttributes()).filter((key) => values[key] !== undefined);
+    } else if (type === 'updated') {
+      changed = (instance.changed() as string[]) || [];
+      if (!changed.length) {
+        return;
+      }
+    }
+    const keys = model.primaryKeyAttributes;
+    const event: ModelChangeEvent = {
+      type,
+      manager: this.managerName,
+      model: model.name,
+      primaryKey: keys.length === 1 ? values[keys[0]] : Object.fromEntries(keys.map((key) => [key, values[key]])),
+      changed,
+      occurredAt: new Date(),
+    };
+
+    if (this.outbox) {
+      await this.outbox.create({ type, model: model.name, payload: JSON.stringify(event) }, { transaction });
+    } else if (transaction) {
+      this.enqueue(transaction, event);
+    } else {
+      this.publish(event);
+    }
+  }
+
+  protected enqueue(transaction: Transaction, event: ModelChangeEvent): void {
+    let queue = this.pending.get(transaction);
+    if (!queue) {
+      queue = [];
+      this.pending.set(transaction, queue);
+      // commit hooks also run when the commit fails: the events are flushed once it succeeded,
+      // and dropped with the transaction if it fails or is rolled back
+      const commit = transaction.commit.bind(transaction);
+      transaction.commit = async () => {
+        try {
+          await commit();
+        } catch (error) {
+          this.pending.delete(transaction);
+          throw error;
+        }
+        this.flush(transaction);
+      };
+    }
+    queue.push(event);
+  }
+
+  protected flush(transaction: Transaction): void {
+    const queue = this.pending.get(transaction) || [];
+    this.pending.delete(transaction);
+    // a released savepoint hands its events over to the enclosing transaction
+    const parent = (transaction as Transaction & { parent?: Transaction }).parent;
+    queue.forEach((event) => (parent ? this.enqueue(parent, event) : this.publish(event)));
+  }
+
+  protected publish(event: ModelChangeEvent): void {
+    try {
+      this.emit(event);
+    } catch (error) {
+      // the change is committed, a failing listener cannot undo it
+      Logger.warn(`[@storehouse/sequelize] [${this.managerName}] listener of "${event.type}" failed:`, error);
+    }
+  }
+}
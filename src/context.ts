@@ -0,0 +1,75 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/**
+ * Request-scoped context, carried by the queries run in its scope.
+ *
+ * @example
+ * ```typescript
+ * const context: QueryContext = { requestId: req.id, userId: req.user.id };
+ * ```
+ */
+export interface QueryContext {
+  /** Correlation ID of the request */
+  requestId?: string;
+  /** ID of the user behind the request */
+  userId?: string | number;
+  /** Additional fields */
+  [key: string]: unknown;
+}
+
+const storage = new AsyncLocalStorage<QueryContext>();
+
+/**
+ * Runs a function within a context. Queries, logs and model hooks run in its scope,
+ * including asynchronous continuations, can read the context with {@link getContext}.
+ * A nested context is merged with the enclosing one.
+ *
+ * @param context - The context fields
+ * @param fn - The function to run
+ *
+ * @returns The result of the function
+ *
+ * @example
+ * ```typescript
+ * app.use((req, res, next) => runWithContext({ requestId: req.get('x-request-id') }, next));
+ * ```
+ */
+export function runWithContext<T>(context: QueryContext, fn: () => T): T {
+  return storage.run({ ...storage.getStore(), ...context }, fn);
+}
+
+/**
+ * Returns the context of the current scope.
+ *
+ * @returns The context, or undefined outside of {@link runWithContext}
+ *
+ * @example
+ * ```typescript
+ * User.addHook('beforeUpdate', (user) => {
+ *   user.set('updatedBy', getContext()?.userId);
+ * });
+ * ```
+ */
+export function getContext(): QueryContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Formats a context for log messages, e.g. "requestId=abc userId=1".
+ *
+ * @param context - The context
+ *
+ * @returns The formatted fields, empty if there are none
+ */
+export function formatContext(context: QueryContext | undefined): string {
+  if (!context) {
+    return '';
+  }
+  return Object.keys(context)
+    .filter((key) => context[key] !== undefined)
+    .map((key) => {
+      const value = context[key];
+      return `${key}=${typeof value === 'object' ? JSON.stringify(value) : String(value)}`;
+    })
+    .join(' ');
+}
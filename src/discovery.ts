@@ -0,0 +1,137 @@
+import type { ModelClassSettings, ModelSettings } from './index';
+import { readdirSync, statSync } from 'node:fs';
+import { extname, join, resolve, sep } from 'node:path';
+import { Model, ModelStatic } from 'sequelize';
+
+const MODULE_EXTENSIONS = ['.js', '.cjs', '.ts'];
+
+/**
+ * A module loaded by {@link loadModules}.
+ */
+export interface LoadedModule {
+  /** Absolute path of the file */
+  file: string;
+  /** The exports of the module */
+  exports: Record<string, unknown>;
+}
+
+/**
+ * A model found by {@link discoverModels}.
+ */
+export interface DiscoveredModel {
+  /** Absolute path of the module exporting the model */
+  file: string;
+  /** The settings of the model */
+  settings: ModelSettings;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === '*' && pattern[i + 1] === '*') {
+      // "**/" matches any number of directories, including none
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (c === '*') {
+      source += '[^/]*';
+    } else if (c === '?') {
+      source += '[^/]';
+    } else {
+      source += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function walk(dir: string, recursive: boolean): string[] {
+  return readdirSync(dir).flatMap((name) => {
+    const file = join(dir, name);
+    if (statSync(file).isDirectory()) {
+      return recursive ? walk(file, true) : [];
+    }
+    return [file];
+  });
+}
+
+/**
+ * Lists the module files of a directory (not recursive) or matching a glob pattern.
+ * Patterns support `*`, `**` and `?`. Declaration files are ignored.
+ *
+ * @param pattern - A directory or a glob pattern, relative to the current working directory
+ *
+ * @returns The absolute paths of the files, sorted
+ */
+export function findModuleFiles(pattern: string): string[] {
+  const normalized = pattern.split(sep).join('/');
+  const wildcard = normalized.search(/[*?]/);
+  let files: string[];
+  if (wildcard === -1) {
+    files = walk(resolve(pattern), false).filter((f) => MODULE_EXTENSIONS.includes(extname(f)));
+  } else {
+    const base = resolve(normalized.slice(0, normalized.lastIndexOf('/', wildcard) + 1) || '.');
+    const regexp = globToRegExp(
+      `${base.split(sep).join('/')}/${normalized.slice(normalized.lastIndexOf('/', wildcard) + 1)}`
+    );
+    files = walk(base, normalized.includes('**') || normalized.slice(wildcard).includes('/')).filter((f) =>
+      regexp.test(f.split(sep).join('/'))
+    );
+  }
+  return files.filter((f) => !f.endsWith('.d.ts')).sort();
+}
+
+/**
+ * Loads the modules of one or several directories or glob patterns.
+ *
+ * @param patterns - Directories or glob patterns
+ *
+ * @returns The loaded modules, in file order
+ */
+export function loadModules(patterns: string | string[]): LoadedModule[] {
+  const files = Array.from(new Set((Array.isArray(patterns) ? patterns : [patterns]).flatMap(findModuleFiles)));
+  return files.map((file) => ({
+    file,
+    // models are needed synchronously by the constructor
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    exports: require(file),
+  }));
+}
+
+/**
+ * Imports the modules of `modelsPath` and collects the models they export.
+ * A module can export, as named or default export:
+ * - a `ModelSettings` object
+ * - a model class extending Model with a static `attributes` property and an optional static `modelOptions` property
+ *
+ * Other exports are ignored, as well as model classes already referenced by an exported `ModelSettings`.
+ * A model exported by several modules is only returned once.
+ *
+ * @param modelsPath - Directories or glob patterns of the modules
+ *
+ * @returns The discovered models, in file order
+ */
+export function discoverModels(modelsPath: string | string[]): DiscoveredModel[] {
+  const found: DiscoveredModel[] = [];
+  const classes: [ModelStatic<Model> & ModelClassSettings, string][] = [];
+  const seen = new Set<unknown>();
+  loadModules(modelsPath).forEach(({ file, exports }) => {
+    [exports, ...Object.values(exports)].forEach((value) => {
+      if (seen.has(value)) {
+        return;
+      }
+      seen.add(value);
+      if (value && typeof value === 'object' && 'attributes' in value) {
+        found.push({ file, settings: value as ModelSettings });
+      } else if (typeof value === 'function' && value.prototype instanceof Model && 'attributes' in value) {
+        classes.push([value as ModelStatic<Model> & ModelClassSettings, file]);
+      }
+    });
+  });
+  classes.forEach(([model, file]) => {
+    if (!found.some(({ settings }) => settings.model === model)) {
+      found.push({ file, settings: { model, attributes: model.attributes, options: model.modelOptions } });
+    }
+  });
+  return found;
+}
@@ -0,0 +1,411 @@
+import Logger from '@novice1/logger';
+import { StorehouseError } from '@storehouse/core';
+import { createCipheriv, createDecipheriv, createHmac, hkdfSync, randomBytes } from 'node:crypto';
+import {
+  DataTypes,
+  FindOptions,
+  Model,
+  ModelAttributeColumnOptions,
+  ModelAttributes,
+  ModelStatic,
+  Op,
+  Sequelize,
+  WhereOptions,
+} from 'sequelize';
+
+const Log = Logger.debugger('@storehouse/sequelize:encryption');
+
+// hooks added to the models with encrypted attributes, under the name "storehouse:encryption"
+const HOOKS = ['beforeFind', 'beforeCount', 'beforeBulkDestroy', 'beforeBulkUpdate'] as const;
+
+const FORMAT = /^enc:v1:([^:]+):([A-Za-z0-9+/]+={0,2}):([A-Za-z0-9+/]+={0,2}):([A-Za-z0-9+/]*={0,2})$/;
+
+/**
+ * Field-level encryption settings of a SequelizeManager.
+ *
+ * @example
+ * ```typescript
+ * const encryption: EncryptionSettings = {
+ *   keys: { '2025-01': process.env.KEY_2025_01!, '2026-01': process.env.KEY_2026_01! },
+ *   currentKeyId: '2026-01'
+ * };
+ * ```
+ */
+export interface EncryptionSettings {
+  /** AES-256 keys indexed by key ID: 32 bytes, as a Buffer or base64 string. Key IDs cannot contain ":". */
+  keys: Record<string, string | Buffer>;
+  /** ID of the key encrypting new values, the other keys only decrypt */
+  currentKeyId: string;
+  /** Number of rows re-encrypted per transaction by {@link SequelizeManager.rotateEncryptionKeys}. Defaults to 500. */
+  batchSize?: number;
+}
+
+/**
+ * Options of an encrypted attribute, set with the `encrypted` property of the model settings.
+ */
+export interface EncryptedAttributeOptions {
+  /**
+   * Derives the IV from the value so that equal values have equal ciphertexts under the same key,
+   * which allows equality lookups at the cost of revealing which rows share a value.
+   */
+  deterministic?: boolean;
+}
+
+/**
+ * Options of {@link SequelizeManager.rotateEncryptionKeys}.
+ */
+export interface RotateEncryptionKeysOptions {
+  /** Names of the models to rotate. Defaults to every model with encrypted attributes. */
+  models?: string[];
+  /** Number of rows re-encrypted per transaction. Defaults to `batchSize` of the settings. */
+  batchSize?: number;
+}
+
+/**
+ * Thrown when an encrypted value cannot be decrypted: its key is unknown or it was tampered with.
+ */
+export class EncryptionError extends StorehouseError {
+  /**
+   * @param message - The reason
+   */
+  constructor(message: string) {
+    super(`Encryption error: ${message}`);
+  }
+}
+
+interface EncryptionKey {
+  key: Buffer;
+  // deterministic IVs are derived with a separate key
+  ivKey: Buffer;
+}
+
+/**
+ * Decodes an encryption key of the settings.
+ *
+ * @param key - A Buffer or base64 string
+ */
+export function decodeEncryptionKey(key: string | Buffer): Buffer {
+  return typeof key === 'string' ? Buffer.from(key, 'base64') : key;
+}
+
+/**
+ * Encrypts and decrypts attribute values with AES-256-GCM. Values are stored as
+ * `enc:v1:<keyId>:<iv>:<tag>:<ciphertext>`, so that they can be decrypted after the current key changed.
+ *
+ * @remarks
+ * Created by a SequelizeManager from its `encryption` settings. Encrypted attributes get a setter encrypting
+ * the value and a getter decrypting it; values that are not encrypted yet are returned as they are.
+ * Equality conditions on deterministic attributes are rewritten to match the value under every key.
+ */
+export class FieldEncryptor {
+  protected settings: EncryptionSettings;
+  protected keys = new Map<string, EncryptionKey>();
+  protected models = new Map<ModelStatic<Model>, Record<string, EncryptedAttributeOptions>>();
+
+  /**
+   * @param settings - The encryption settings, validated
+   */
+  constructor(settings: EncryptionSettings) {
+    this.settings = settings;
+    Object.entries(settings.keys).forEach(([keyId, value]) => {
+      const key = decodeEncryptionKey(value);
+      this.keys.set(keyId, {
+        key,
+        ivKey: Buffer.from(hkdfSync('sha256', key, Buffer.alloc(0), 'storehouse:encryption:iv', 32)),
+      });
+    });
+  }
+
+  /**
+   * Encrypts a value.
+   *
+   * @param plaintext - The value
+   * @param deterministic - Whether the IV is derived from the value
+   * @param keyId - The key, defaults to the current key
+   */
+  encrypt(plaintext: string, deterministic = false, keyId = this.settings.currentKeyId): string {
+    const { key, ivKey } = this.getKey(keyId);
+    const iv = deterministic ? createHmac('sha256', ivKey).update(plaintext).digest().subarray(0, 12) : randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return [
+      'enc:v1',
+      keyId,
+      iv.toString('base64'),
+      cipher.getAuthTag().toString('base64'),
+      ciphertext.toString('base64'),
+    ].join(':');
+  }
+
+  /**
+   * Decrypts a value.
+   *
+   * @param value - The encrypted value
+   *
+   * @throws {EncryptionError} If the key of the value is unknown or the value was tampered with
+   */
+  decrypt(value: string): string {
+    const match = FORMAT.exec(value);
+    if (!match) {
+      throw new EncryptionError('value is not encrypted');
+    }
+    const [, keyId, iv, tag, ciphertext] = match;
+    const decipher = createDecipheriv('aes-256-gcm', this.getKey(keyId).key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    try {
+      return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+    } catch {
+      throw new EncryptionError(`value encrypted with key "${keyId}" could not be authenticated`);
+    }
+  }
+
+  /**
+   * Checks whether a value is encrypted.
+   *
+   * @param value - The value
+   */
+  isEncrypted(value: unknown): value is string {
+    return typeof value === 'string' && FORMAT.test(value);
+  }
+
+  /**
+   * Returns the ID of the key of an encrypted value.
+   *
+   * @param value - The value
+   *
+   * @returns The key ID, or undefined if the value is not encrypted
+   */
+  getKeyId(value: unknown): string | undefined {
+    return typeof value === 'string' ? FORMAT.exec(value)?.[1] : undefined;
+  }
+
+  /**
+   * Returns copies of the attributes where the encrypted ones get a setter encrypting the value
+   * and a getter decrypting it.
+   *
+   * @param attributes - The model attributes
+   * @param encrypted - The encrypted attributes and their options
+   */
+  wrapAttributes(attributes: ModelAttributes, encrypted: Record<string, EncryptedAttributeOptions>): ModelAttributes {
+    const wrapped: ModelAttributes = { ...attributes };
+    const decrypt = (value: unknown) => (this.isEncrypted(value) ? this.decrypt(value) : value);
+    const encrypt = (value: unknown, current: unknown, options: EncryptedAttributeOptions) => {
+      if (value === null || value === undefined || this.isEncrypted(value)) {
+        return value;
+      }
+      // an unchanged value keeps its ciphertext, so that it is not saved again
+      if (this.isEncrypted(current) && this.decrypt(current) === String(value)) {
+        return current;
+      }
+      return this.encrypt(String(value), options.deterministic);
+    };
+    Object.entries(encrypted).forEach(([name, options]) => {
+      const attribute = attributes[name];
+      const column = (
+        typeof attribute === 'function' || attribute instanceof DataTypes.ABSTRACT ? { type: attribute } : attribute
+      ) as ModelAttributeColumnOptions;
+      wrapped[name] = {
+        ...column,
+        get() {
+          return decrypt(this.getDataValue(name));
+        },
+        set(value: unknown) {
+          this.setDataValue(name, encrypt(value, this.getDataValue(name), options));
+        },
+      };
+    });
+    return wrapped;
+  }
+
+  /**
+   * Adds the hooks encrypting the values of bulk updates and rewriting the equality conditions
+   * on deterministic attributes.
+   *
+   * @param model - The model, initialized with wrapped attributes
+   * @param encrypted - The encrypted attributes and their options
+   */
+  attach(model: ModelStatic<Model>, encrypted: Record<string, EncryptedAttributeOptions>): void {
+    this.models.set(model, encrypted);
+    const deterministic = Object.keys(encrypted).filter((name) => encrypted[name].deterministic);
+    const rewrite = (options: { where?: WhereOptions }) => {
+      if (deterministic.length && options.where) {
+        options.where = this.rewriteWhere(options.where, deterministic) as WhereOptions;
+      }
+    };
+
+    model.addHook('beforeFind', 'storehouse:encryption', rewrite);
+    model.addHook('beforeCount', 'storehouse:encryption', rewrite);
+    model.addHook('beforeBulkDestroy', 'storehouse:encryption', rewrite);
+    model.addHook('beforeBulkUpdate', 'storehouse:encryption', (options) => {
+      rewrite(options);
+      const values = (options as { attributes?: Record<string, unknown> }).attributes || {};
+      Object.keys(encrypted).forEach((name) => {
+        const value = values[name];
+        if (value !== null && value !== undefined && !this.isEncrypted(value)) {
+          values[name] = this.encrypt(String(value), encrypted[name].deterministic);
+        }
+      });
+    });
+    Log.debug(`encrypting attributes ${Object.keys(encrypted).join(', ')} of model "${model.name}"`);
+  }
+
+  /**
+   * Removes the hooks of a model and forgets its encrypted attributes, which are no longer rotated.
+   *
+   * @param model - The model
+   */
+  detach(model: ModelStatic<Model>): void {
+    this.models.delete(model);
+    HOOKS.forEach((hookType) => model.removeHook(hookType, 'storehouse:encryption'));
+    Log.debug(`stopped encrypting attributes of model "${model.name}"`);
+  }
+
+  /**
+   * Lists the models with encrypted attributes.
+   */
+  getModels(): ModelStatic<Model>[] {
+    return Array.from(this.models.keys());
+  }
+
+  /**
+   * Re-encrypts with the current key the values of a model encrypted with another key, and encrypts
+   * the values that are not encrypted yet, in batches of one transaction each, in primary key order.
+   *
+   * @param sequelize - The connection of the model
+   * @param model - The model
+   * @param batchSize - Number of rows per batch
+   *
+   * @returns The number of updated rows
+   *
+   * @throws {EncryptionError} If a value cannot be decrypted
+   */
+  async rotate(
+    sequelize: Sequelize,
+    model: ModelStatic<Model>,
+    batchSize = this.settings.batchSize || 500
+  ): Promise<number> {
+    const encrypted = this.models.get(model) || {};
+    const names = Object.keys(encrypted);
+    const keys = model.primaryKeyAttributes;
+    // the key ID is checked here: LIKE patterns would treat "_" and "%" as wildcards and may ignore the case
+    const where = { [Op.or]: names.map((name) => ({ [name]: { [Op.ne]: null } })) };
+    let last: Record<string, unknown> | undefined;
+    let total = 0;
+    for (;;) {
+      const batch = await sequelize.transaction(async (transaction) => {
+        const options: FindOptions & { hooks: boolean } = {
+          attributes: [...keys, ...names],
+          where: last ? { [Op.and]: [where, getFollowingWhere(keys, last)] } : where,
+          order: keys.map((key) => [key, 'ASC']),
+          limit: batchSize,
+          raw: true,
+          hooks: false,
+          transaction,
+        };
+        const rows = (await model.findAll(options)) as unknown as Record<string, unknown>[];
+        let updated = 0;
+        for (const row of rows) {
+          const values: Record<string, string> = {};
+          names
+            .filter((name) => row[name] !== null && this.getKeyId(row[name]) !== this.settings.currentKeyId)
+            .forEach((name) => {
+              const value = row[name] as string;
+              const plaintext = this.isEncrypted(value) ? this.decrypt(value) : String(value);
+              values[name] = this.encrypt(plaintext, encrypted[name].deterministic);
+            });
+          if (!Object.keys(values).length) {
+            continue;
+          }
+          await model.update(values, {
+            where: Object.fromEntries(keys.map((key) => [key, row[key]])),
+            fields: Object.keys(values),
+            hooks: false,
+            validate: false,
+            silent: true,
+            transaction,
+          });
+          updated++;
+        }
+        return { updated, last: rows.length === batchSize ? rows[rows.length - 1] : undefined };
+      });
+      total += batch.updated;
+      if (!batch.last) {
+        break;
+      }
+      last = batch.last;
+    }
+    Log.debug(`re-encrypted ${total} row(s) of model "${model.name}"`);
+    return total;
+  }
+
+  protected getKey(keyId: string): EncryptionKey {
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new EncryptionError(`unknown key "${keyId}"`);
+    }
+    return key;
+  }
+
+  // matches a value under every key, and unencrypted values not rotated yet
+  protected getCandidates(value: unknown): unknown[] {
+    if (value === null || value === undefined || typeof value === 'object') {
+      return [value];
+    }
+    const plaintext = String(value);
+    return [plaintext, ...Array.from(this.keys.keys()).map((keyId) => this.encrypt(plaintext, true, keyId))];
+  }
+
+  protected rewriteWhere(where: unknown, names: string[]): unknown {
+    if (Array.isArray(where)) {
+      return where.map((w) => this.rewriteWhere(w, names));
+    }
+    if (!where || typeof where !== 'object' || where.constructor !== Object) {
+      return where;
+    }
+    const source = where as Record<PropertyKey, unknown>;
+    const rewritten: Record<PropertyKey, unknown> = {};
+    Object.getOwnPropertySymbols(source).forEach((op) => {
+      // Op.and, Op.or and Op.not nest conditions
+      rewritten[op] = [Op.and, Op.or, Op.not].includes(op) ? this.rewriteWhere(source[op], names) : source[op];
+    });
+    Object.keys(source).forEach((key) => {
+      rewritten[key] = names.includes(key) ? this.rewriteCondition(source[key]) : source[key];
+    });
+    return rewritten;
+  }
+
+  protected rewriteCondition(condition: unknown): unknown {
+    if (condition === null) {
+      return condition;
+    }
+    if (Array.isArray(condition)) {
+      return { [Op.in]: condition.flatMap((v) => this.getCandidates(v)) };
+    }
+    if (typeof condition !== 'object' || condition.constructor !== Object) {
+      return { [Op.in]: this.getCandidates(condition) };
+    }
+    const source = condition as Record<PropertyKey, unknown>;
+    const rewritten: Record<PropertyKey, unknown> = {};
+    Object.getOwnPropertySymbols(source).forEach((op) => {
+      const value = source[op];
+      if ((op === Op.eq || op === Op.in) && value !== null) {
+        rewritten[Op.in] = [value].flat().flatMap((v) => this.getCandidates(v));
+      } else if ((op === Op.ne || op === Op.notIn) && value !== null) {
+        rewritten[Op.notIn] = [value].flat().flatMap((v) => this.getCandidates(v));
+      } else {
+        rewritten[op] = value;
+      }
+    });
+    return rewritten;
+  }
+}
+
+// rows following a row in the order of the primary key: (k1 > v1) OR (k1 = v1 AND k2 > v2) OR ...
+function getFollowingWhere(keys: readonly string[], row: Record<string, unknown>): WhereOptions {
+  return {
+    [Op.or]: keys.map((key, i) => ({
+      ...Object.fromEntries(keys.slice(0, i).map((previous) => [previous, row[previous]])),
+      [key]: { [Op.gt]: row[key] },
+    })),
+  };
+}
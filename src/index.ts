@@ -1,5 +1,38 @@
+import { AuditEntry, AuditHistoryOptions, AuditOptions, AuditSettings, AuditTrail } from './audit';
+import { CacheSettings, CacheStats, ModelCacheOptions, QueryCache } from './cache';
+import { ChangeEventsSettings, ChangeTracker, ModelChangeEvent } from './changes';
+import { QueryContext, formatContext, getContext, runWithContext } from './context';
+import {
+  EncryptedAttributeOptions,
+  EncryptionSettings,
+  FieldEncryptor,
+  RotateEncryptionKeysOptions,
+} from './encryption';
+import { InstrumentationSettings, QueryMetrics, QueryMetricsSnapshot, SequelizePoolStats } from './metrics';
+import { MigrationStatus, Migrator, MigrationsSettings } from './migrations';
+import { getModelIndex } from './modelIndex';
+import { IterateBatchesOptions, Page, PaginateOptions, iterateBatches, paginate } from './pagination';
+import { ReplicaHealth, ReplicaRouter, ReplicatedConnectionManager, ReplicationSettings } from './replication';
+import { BackoffSettings, computeBackoff, sleep } from './retry';
+import { SchemaChange, SyncSchemaOptions, SyncSettings, assertSyncAllowed, diffSchema } from './schema';
+import { SeedOptions, SeederRunner, SeedersSettings } from './seeders';
+import { CreateTenantOptions, TenancySettings, TenantScope, getTenantSchema } from './tenancy';
+import {
+  TransactionRetrySettings,
+  UnitOfWorkCommitError,
+  WithTransactionOptions,
+  isTransientError,
+} from './transactions';
+import {
+  getEncryptionProblems,
+  getModelSettingsName,
+  getModelSettingsSources,
+  getModelsProblems,
+  getOptionsProblems,
+} from './validation';
 import Logger from '@novice1/logger';
 import {
+  ConnectionError,
   HealthCheckResult,
   IManager,
   InvalidManagerConfigError,
@@ -7,14 +40,77 @@ import {
   ManagerNotFoundError,
   ModelNotFoundError,
   Registry,
+  StorehouseError,
 } from '@storehouse/core';
-import { Sequelize, Model, ModelAttributes, ModelOptions, Options, ModelStatic } from 'sequelize';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { EventEmitter } from 'node:events';
+import {
+  Sequelize,
+  Model,
+  ModelAttributes,
+  ModelOptions,
+  Options,
+  ModelStatic,
+  HasOneOptions,
+  HasManyOptions,
+  BelongsToOptions,
+  BelongsToManyOptions,
+  ConnectionOptions,
+  Dialect,
+  Transaction,
+  TransactionOptions,
+  QueryOptions,
+  QueryOptionsWithModel,
+  QueryOptionsWithType,
+  QueryTypes,
+  ColumnsDescription,
+} from 'sequelize';
+
+export * from './audit';
+export * from './cache';
+export * from './changes';
+export * from './context';
+export * from './discovery';
+export * from './encryption';
+export * from './pagination';
+export * from './metrics';
+export * from './migrations';
+export * from './modelIndex';
+export * from './replication';
+export * from './retry';
+export * from './schema';
+export * from './seeders';
+export * from './tenancy';
+export * from './transactions';
+export * from './validation';
 
 const Log = Logger.debugger('@storehouse/sequelize');
 
+// SQL with bind parameters, as accepted by Sequelize.query
+type SqlWithValues = { query: string; values: unknown[] };
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export type AnyJsonObject = { [key: string]: any };
 
+/**
+ * Declarative association between two models of the same manager.
+ * The `target` is the name of another model registered in the manager.
+ *
+ * @example
+ * ```typescript
+ * const association: AssociationSettings = {
+ *   type: 'hasMany',
+ *   target: 'posts',
+ *   options: { foreignKey: 'authorId', as: 'posts' }
+ * };
+ * ```
+ */
+export type AssociationSettings =
+  | { type: 'hasOne'; target: string; options?: HasOneOptions }
+  | { type: 'hasMany'; target: string; options?: HasManyOptions }
+  | { type: 'belongsTo'; target: string; options?: BelongsToOptions }
+  | { type: 'belongsToMany'; target: string; options: BelongsToManyOptions };
+
 /**
  * Configuration settings for a Sequelize model.
  * Defines the attributes, model class, and options for a single model.
@@ -58,6 +154,235 @@ export interface ModelSettings<
   model?: ModelStatic<Model<TModelAttributes, TCreationAttributes>>;
   /** Model configuration options such as tableName, timestamps, etc. */
   options?: ModelOptions<Model<TModelAttributes, TCreationAttributes>>;
+  /** Associations to other models of the manager, applied once every model is initialized */
+  associations?: AssociationSettings[];
+  /**
+   * Callback to define associations manually, called once every model is initialized.
+   * Receives the models registered in the manager, indexed by name.
+   */
+  associate?: (models: Record<string, ModelStatic<Model>>) => void;
+  /** Records the changes of the model in the audit log of the manager, see {@link SequelizeManager.getAuditHistory} */
+  audit?: boolean | AuditOptions;
+  /** Attributes encrypted at rest with the keys of the manager, see {@link EncryptionSettings} */
+  encrypted?: Record<string, boolean | EncryptedAttributeOptions>;
+  /** Caches the results of `findAll`, `findOne`, `findByPk` and `count`, see {@link CacheSettings} */
+  cache?: boolean | ModelCacheOptions;
+}
+
+/**
+ * Static properties of a model class exported by a module of `modelsPath`.
+ *
+ * @example
+ * ```typescript
+ * export class Tag extends Model {
+ *   static attributes: ModelAttributes<Tag> = {
+ *     label: { type: DataTypes.STRING, allowNull: false }
+ *   };
+ *   static modelOptions: ModelOptions<Tag> = { tableName: 'tags' };
+ * }
+ * ```
+ */
+export interface ModelClassSettings {
+  /** The model attribute definitions */
+  attributes: ModelSettings['attributes'];
+  /** Model configuration options */
+  modelOptions?: ModelSettings['options'];
+}
+
+/**
+ * Model classes of a manager, indexed by model name.
+ */
+export type ModelMap = Record<string, ModelStatic<Model>>;
+
+/**
+ * Names accepted by the `getModel` methods for a model map: any string if the map is not typed.
+ *
+ * @template TModels - The model map
+ */
+export type ModelName<TModels extends ModelMap> = Extract<keyof TModels, string>;
+
+/**
+ * Model class described by model settings: the `model` class if set, otherwise a model of the attributes.
+ *
+ * @template S - The model settings type
+ */
+export type ModelOf<S> = S extends { model: infer C extends ModelStatic<Model> }
+  ? C
+  : S extends ModelSettings<infer TModelAttributes, infer TCreationAttributes>
+    ? ModelStatic<Model<TModelAttributes, TCreationAttributes>>
+    : ModelStatic<Model>;
+
+/**
+ * Model map described by a tuple of model settings, indexed by `options.modelName`.
+ * Settings without a literal `options.modelName` are left out, see {@link defineModel}.
+ *
+ * @template T - The tuple of model settings
+ *
+ * @example
+ * ```typescript
+ * const models = [movieSettings, userSettings] as const;
+ * const manager = new SequelizeManager<ModelMapOf<typeof models>>({ config: { options, models: [...models] } });
+ * manager.getModel('movies'); // typeof Movie
+ * ```
+ */
+export type ModelMapOf<T extends readonly ModelSettings[]> = {
+  [S in T[number] as S extends { options: { modelName: infer N extends string } } ? N : never]: ModelOf<S>;
+};
+
+/**
+ * Model map of a manager type.
+ *
+ * @template M - The SequelizeManager type
+ */
+export type ModelsOf<M> = M extends SequelizeManager<infer TModels> ? TModels : ModelMap;
+
+/**
+ * Model maps of the managers of the application, indexed by manager name.
+ * Declared by module augmentation, it types the package-level `getModel(registry, managerName, modelName)`.
+ *
+ * @example
+ * ```typescript
+ * declare module '@storehouse/sequelize' {
+ *   interface RegisteredModelMaps {
+ *     primary: ModelMapOf<typeof primaryModels>;
+ *     analytics: { events: ModelStatic<Event> };
+ *   }
+ * }
+ *
+ * const Movies = getModel(Storehouse, 'primary', 'movies'); // typeof Movie
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface RegisteredModelMaps {}
+
+type RegisteredModelMap<MN extends keyof RegisteredModelMaps> = RegisteredModelMaps[MN] extends ModelMap
+  ? RegisteredModelMaps[MN]
+  : ModelMap;
+
+// model names accepted for a manager, restricted to its model map if it is declared
+type RegisteredModelName<MN extends string> = MN extends keyof RegisteredModelMaps
+  ? ModelName<RegisteredModelMap<MN>>
+  : string;
+
+/**
+ * Returns its argument, keeping the literal `options.modelName` so that it can be used in a {@link ModelMapOf}.
+ *
+ * @param settings - The model settings
+ *
+ * @returns The same settings
+ *
+ * @example
+ * ```typescript
+ * export const movieSettings = defineModel({
+ *   model: Movie,
+ *   attributes: movieSchema,
+ *   options: { modelName: 'movies' }
+ * });
+ * ```
+ */
+export function defineModel<const S extends ModelSettings>(settings: S): S {
+  return settings;
+}
+
+/**
+ * Settings of {@link SequelizeManager.connect}.
+ *
+ * @example
+ * ```typescript
+ * const connect: ConnectSettings = {
+ *   retries: 10,
+ *   initialDelay: 500,
+ *   maxDelay: 5000,
+ *   migrate: true
+ * };
+ * ```
+ */
+export interface ConnectSettings extends BackoffSettings {
+  /** Number of retries after a failed authentication. Defaults to 5. */
+  retries?: number;
+  /** Runs pending migrations once connected */
+  migrate?: boolean;
+  /** Applies the sync policy once connected (and migrated) */
+  sync?: boolean;
+}
+
+/**
+ * Settings of {@link SequelizeManager.closeConnection}.
+ *
+ * @example
+ * ```typescript
+ * const shutdown: ShutdownSettings = { graceful: true, timeout: 15000 };
+ * ```
+ */
+export interface ShutdownSettings {
+  /** Waits for active queries and transactions to finish before closing */
+  graceful?: boolean;
+  /** Maximum time in milliseconds to wait before force-closing. Defaults to 10000. */
+  timeout?: number;
+}
+
+/**
+ * Result of {@link SequelizeManager.closeConnection}.
+ */
+export interface ShutdownReport {
+  /** Whether the close waited for in-flight work */
+  graceful: boolean;
+  /** Whether all in-flight work finished before the connection was closed */
+  drained: boolean;
+  /** Number of queries still running when the connection was closed */
+  abortedQueries: number;
+  /** Number of transactions still open when the connection was closed */
+  abortedTransactions: number;
+  /** Time taken to close in milliseconds */
+  duration: number;
+}
+
+/**
+ * Thrown when a query or a transaction is started while the manager is closing.
+ */
+export class ManagerClosingError extends StorehouseError {
+  /**
+   * @param managerName - Name of the closing manager
+   */
+  constructor(managerName: string) {
+    super(`Manager "${managerName}" is closing and does not accept new queries`);
+  }
+}
+
+/**
+ * Options of {@link SequelizeManager.registerModel}.
+ */
+export interface RegisterModelOptions {
+  /** Creates the table of the model if it does not exist */
+  sync?: boolean;
+}
+
+/**
+ * Payload of the `modelRegistered` and `modelRemoved` events of a SequelizeManager.
+ */
+export interface ModelLifecycleEvent {
+  /** Name of the manager */
+  manager: string;
+  /** Name of the model */
+  name: string;
+  /** The model class */
+  model: ModelStatic<Model>;
+}
+
+/**
+ * Events emitted by a SequelizeManager, with their payload.
+ */
+export interface SequelizeManagerEvents {
+  /** A model was registered by {@link SequelizeManager.registerModel} */
+  modelRegistered: ModelLifecycleEvent;
+  /** A model was removed by {@link SequelizeManager.unregisterModel} */
+  modelRemoved: ModelLifecycleEvent;
+  /** An entity was created, see {@link ChangeEventsSettings} */
+  created: ModelChangeEvent;
+  /** An entity was updated, see {@link ChangeEventsSettings} */
+  updated: ModelChangeEvent;
+  /** An entity was deleted, see {@link ChangeEventsSettings} */
+  deleted: ModelChangeEvent;
 }
 
 /**
@@ -89,6 +414,39 @@ export interface SequelizeManagerSettings {
   options?: Options;
   /** Array of model definitions to register with the Sequelize instance */
   models?: ModelSettings[];
+  /**
+   * Directories or glob patterns of modules exporting models, registered as if they were in `models`.
+   * See {@link discoverModels}.
+   */
+  modelsPath?: string | string[];
+  /** Migrations to run with {@link SequelizeManager.migrate} on the manager's connection */
+  migrations?: MigrationsSettings;
+  /** Seeders to run with {@link SequelizeManager.seed} through the registered models */
+  seeders?: SeedersSettings;
+  /** Schema synchronization policy applied by {@link SequelizeManager.syncSchema} */
+  sync?: SyncSettings;
+  /** Default options of {@link SequelizeManager.healthCheck} */
+  healthCheck?: SequelizeHealthCheckOptions;
+  /** Retry policy and startup steps of {@link SequelizeManager.connect} */
+  connect?: ConnectSettings;
+  /** Default options of {@link SequelizeManager.closeConnection} */
+  shutdown?: ShutdownSettings;
+  /** Query instrumentation exposed by {@link SequelizeManager.getMetrics} */
+  instrumentation?: InstrumentationSettings;
+  /** Default retry policy of {@link SequelizeManager.withTransaction} */
+  transactions?: TransactionRetrySettings;
+  /** Schema-per-tenant settings of {@link SequelizeManager.forTenant} */
+  tenancy?: TenancySettings;
+  /** Read replica checks, used when `options.replication` is set */
+  replication?: ReplicationSettings;
+  /** Audit log shared by the models with the `audit` option */
+  audit?: AuditSettings;
+  /** Keys of the attributes marked as `encrypted` in the models */
+  encryption?: EncryptionSettings;
+  /** Query cache shared by the models with the `cache` option */
+  cache?: CacheSettings;
+  /** Emits `created`, `updated` and `deleted` events once the changes of the models are committed */
+  changeEvents?: boolean | ChangeEventsSettings;
 }
 
 /**
@@ -121,22 +479,48 @@ export interface SequelizeManagerArg extends ManagerArg {
   config?: SequelizeManagerSettings;
 }
 
+/**
+ * Retrieves a Sequelize model from a manager declared in {@link RegisteredModelMaps}.
+ * The manager and model names are checked at compile time and the model class is inferred.
+ *
+ * @param registry - The Storehouse registry containing registered managers
+ * @param managerName - The name of the manager to retrieve the model from
+ * @param modelName - The name of the model to retrieve
+ *
+ * @returns The requested model class
+ *
+ * @throws {ModelNotFoundError} If the model is not found in the specified manager
+ *
+ * @example
+ * ```typescript
+ * const Movies = getModel(registry, 'primary', 'movies');
+ * ```
+ */
+export function getModel<
+  MN extends Extract<keyof RegisteredModelMaps, string>,
+  N extends ModelName<RegisteredModelMap<MN>>,
+>(registry: Registry, managerName: MN, modelName: N): RegisteredModelMap<MN>[N];
 /**
  * Retrieves a Sequelize model from the registry.
+ * The name is looked up across the Sequelize managers (see {@link ModelIndex}) and can be qualified
+ * with the name of the manager owning the model.
  *
  * @template M - The Model type to return, defaults to Model
  *
  * @param registry - The Storehouse registry containing registered managers
- * @param modelName - The name of the model to retrieve
+ * @param modelName - The name of the model to retrieve, "<model>" or "<manager>.<model>"
  *
  * @returns The requested ModelStatic instance
  *
  * @throws {ModelNotFoundError} If the model is not found in the registry
+ * @throws {AmbiguousModelError} If the name matches models of several managers and ambiguity is an error
  *
  * @example
  * ```typescript
  * const User = getModel(registry, 'User');
  * const users = await User.findAll();
+ *
+ * const Events = getModel(registry, 'analytics.events');
  * ```
  */
 export function getModel<M extends Model = Model>(registry: Registry, modelName: string): ModelStatic<M>;
@@ -144,10 +528,11 @@ export function getModel<M extends Model = Model>(registry: Registry, modelName:
  * Retrieves a Sequelize model from a specific manager in the registry.
  *
  * @template M - The Model type to return, defaults to Model
+ * @template MN - The manager name, inferred
  *
  * @param registry - The Storehouse registry containing registered managers
  * @param managerName - The name of the manager to retrieve the model from
- * @param modelName - The name of the model to retrieve
+ * @param modelName - The name of the model to retrieve, checked if the manager is declared in {@link RegisteredModelMaps}
  *
  * @returns The requested ModelStatic instance
  *
@@ -159,16 +544,16 @@ export function getModel<M extends Model = Model>(registry: Registry, modelName:
  * const user = await User.findByPk(1);
  * ```
  */
-export function getModel<M extends Model = Model>(
+export function getModel<M extends Model = Model, MN extends string = string>(
   registry: Registry,
-  managerName: string,
-  modelName: string
+  managerName: MN,
+  modelName: RegisteredModelName<MN>
 ): ModelStatic<M>;
 export function getModel<M extends ModelStatic<Model> = ModelStatic<Model>>(registry: Registry, modelName: string): M;
-export function getModel<M extends ModelStatic<Model> = ModelStatic<Model>>(
+export function getModel<M extends ModelStatic<Model> = ModelStatic<Model>, MN extends string = string>(
   registry: Registry,
-  managerName: string,
-  modelName: string
+  managerName: MN,
+  modelName: RegisteredModelName<MN>
 ): M;
 export function getModel<
   TModelAttributes extends Record<string, unknown> = AnyJsonObject,
@@ -177,17 +562,21 @@ export function getModel<
 export function getModel<
   TModelAttributes extends Record<string, unknown> = AnyJsonObject,
   TCreationAttributes extends Record<string, unknown> = AnyJsonObject,
+  MN extends string = string,
 >(
   registry: Registry,
-  managerName: string,
-  modelName: string
+  managerName: MN,
+  modelName: RegisteredModelName<MN>
 ): ModelStatic<Model<TModelAttributes, TCreationAttributes>>;
 export function getModel<M extends Model = Model>(
   registry: Registry,
   managerName: string,
   modelName?: string
 ): ModelStatic<M> {
-  const model = registry.getModel<ModelStatic<M>>(managerName, modelName);
+  // unqualified and "<manager>.<model>" names are looked up across the Sequelize managers
+  const model =
+    (typeof modelName === 'undefined' ? getModelIndex(registry).getModel<ModelStatic<M>>(managerName) : undefined) ||
+    registry.getModel<ModelStatic<M>>(managerName, modelName);
   if (!model) {
     throw new ModelNotFoundError(modelName || managerName, modelName ? managerName : undefined);
   }
@@ -260,6 +649,229 @@ export function getConnection(registry: Registry, managerName?: string): Sequeli
   return conn;
 }
 
+/**
+ * Retrieves a SequelizeManager instance from the registry once it is ready.
+ * Starts {@link SequelizeManager.connect} if it has not been called yet.
+ *
+ * @template M - The specific SequelizeManager type to return, defaults to SequelizeManager
+ *
+ * @param registry - The Storehouse registry containing registered managers
+ * @param managerName - Optional name of the manager to retrieve. If omitted, retrieves the default manager
+ *
+ * @returns A promise that resolves to the ready SequelizeManager instance
+ *
+ * @throws {ManagerNotFoundError} If the manager is not found in the registry
+ * @throws {InvalidManagerConfigError} If the manager exists but is not an instance of SequelizeManager
+ * @throws {ConnectionError} If the manager could not connect
+ *
+ * @example
+ * ```typescript
+ * const sequelizeManager = await getReadyManager(registry, 'primary-db');
+ * ```
+ */
+export async function getReadyManager<M extends SequelizeManager = SequelizeManager>(
+  registry: Registry,
+  managerName?: string
+): Promise<M> {
+  return getManager<M>(registry, managerName).ready();
+}
+
+/**
+ * Retrieves a Sequelize connection instance from a manager in the registry once the manager is ready.
+ * Starts {@link SequelizeManager.connect} if it has not been called yet.
+ *
+ * @param registry - The Storehouse registry containing registered managers
+ * @param managerName - Optional name of the manager. If omitted, uses the default manager
+ *
+ * @returns A promise that resolves to the Sequelize connection instance
+ *
+ * @throws {ManagerNotFoundError} If the manager is not found in the registry
+ * @throws {InvalidManagerConfigError} If the manager exists but is not an instance of SequelizeManager
+ * @throws {ConnectionError} If the manager could not connect
+ *
+ * @example
+ * ```typescript
+ * const sequelize = await getReadyConnection(registry, 'primary-db');
+ * await sequelize.query('SELECT 1');
+ * ```
+ */
+export async function getReadyConnection(registry: Registry, managerName?: string): Promise<Sequelize> {
+  return (await getReadyManager(registry, managerName)).getConnection();
+}
+
+/**
+ * Runs a unit of work across several managers of the registry: a transaction is opened on each manager,
+ * in order, and the callback receives them by manager name. If the callback fails, every transaction is rolled back.
+ * Otherwise the transactions are committed in order.
+ *
+ * @remarks
+ * This is a best-effort coordination, not a two-phase commit: if a commit fails, the transactions
+ * committed before it stay committed and the following ones are rolled back, which is reported
+ * by a {@link UnitOfWorkCommitError}. Put the manager most likely to fail first.
+ *
+ * @param registry - The Storehouse registry containing registered managers
+ * @param managerNames - The names of the managers, in commit order
+ * @param fn - The function to run, receiving the transactions by manager name
+ * @param options - Options of every transaction, e.g. `isolationLevel`
+ *
+ * @returns A promise that resolves to the result of the function once every transaction is committed
+ *
+ * @throws {ManagerNotFoundError} If a manager is not found in the registry
+ * @throws {InvalidManagerConfigError} If a manager is not an instance of SequelizeManager
+ * @throws {UnitOfWorkCommitError} If a transaction fails to commit
+ *
+ * @example
+ * ```typescript
+ * await withUnitOfWork(registry, ['billing', 'primary'], async ({ billing, primary }) => {
+ *   await Invoices.create({ orderId }, { transaction: billing });
+ *   await Orders.update({ status: 'invoiced' }, { where: { id: orderId }, transaction: primary });
+ * });
+ * ```
+ */
+export async function withUnitOfWork<T>(
+  registry: Registry,
+  managerNames: string[],
+  fn: (transactions: Record<string, Transaction>) => PromiseLike<T>,
+  options?: TransactionOptions
+): Promise<T> {
+  const names = Array.from(new Set(managerNames));
+  const managers = names.map((name) => getManager(registry, name));
+  const transactions: Record<string, Transaction> = {};
+
+  // rolls back in reverse order, collecting the failures
+  const rollback = async (pending: string[]) => {
+    const errors: Record<string, unknown> = {};
+    for (const name of pending.slice().reverse()) {
+      try {
+        await transactions[name].rollback();
+      } catch (error) {
+        Log.debug(`[${name}]`, 'unit of work rollback failed', error);
+        errors[name] = error;
+      }
+    }
+    return errors;
+  };
+
+  try {
+    for (let i = 0; i < managers.length; i++) {
+      transactions[names[i]] = await managers[i].transaction({ ...options });
+    }
+  } catch (error) {
+    await rollback(Object.keys(transactions));
+    throw error;
+  }
+
+  let result: T;
+  try {
+    result = await fn(transactions);
+  } catch (error) {
+    await rollback(names);
+    throw error;
+  }
+
+  const committed: string[] = [];
+  for (const name of names) {
+    try {
+      await transactions[name].commit();
+    } catch (error) {
+      const pending = names.slice(committed.length + 1);
+      const rollbackErrors = await rollback(pending);
+      throw new UnitOfWorkCommitError(
+        name,
+        committed,
+        pending.filter((n) => !(n in rollbackErrors)),
+        rollbackErrors,
+        error
+      );
+    }
+    committed.push(name);
+  }
+  return result;
+}
+
+/**
+ * Options of a Sequelize health check.
+ *
+ * @example
+ * ```typescript
+ * const options: SequelizeHealthCheckOptions = {
+ *   deep: true,
+ *   timeout: 2000,
+ *   probe: 'SELECT 1',
+ *   latencyThreshold: 200
+ * };
+ * ```
+ */
+export interface SequelizeHealthCheckOptions {
+  /**
+   * Checks, for each registered model, that the table exists and that its columns and their
+   * nullability match the attributes. Drift marks the result as "degraded".
+   */
+  deep?: boolean;
+  /** Maximum time in milliseconds before the check is considered unhealthy */
+  timeout?: number;
+  /** Query or function used to probe the connection instead of `authenticate()` */
+  probe?: string | ((sequelize: Sequelize) => Promise<unknown>);
+  /** Probe latency in milliseconds above which the result is "degraded" */
+  latencyThreshold?: number;
+  /** Whether to fetch the database version. Defaults to true. */
+  databaseVersion?: boolean;
+}
+
+interface PoolLike {
+  size: number;
+  available: number;
+  using: number;
+  waiting: number;
+  maxSize: number;
+  minSize: number;
+}
+
+function toPoolStats(pool: PoolLike): SequelizePoolStats {
+  return {
+    size: pool.size,
+    available: pool.available,
+    inUse: pool.using,
+    waiting: pool.waiting,
+    max: pool.maxSize,
+    min: pool.minSize,
+  };
+}
+
+function toConfigError(problems: string[], managerName?: string): InvalidManagerConfigError {
+  const manager = managerName ? ` "${managerName}"` : '';
+  return new InvalidManagerConfigError(
+    `${problems.length} problem(s) in manager${manager}:\n- ${problems.join('\n- ')}`
+  );
+}
+
+function withTimeout<T>(promise: Promise<T>, timeout: number | undefined, message: string): Promise<T> {
+  if (!timeout) {
+    return promise;
+  }
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new ConnectionError(message)), timeout);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Status of a Sequelize health check.
+ * - `healthy`: the connection works and, in deep mode, no drift was found
+ * - `degraded`: the connection works but something needs attention (e.g. schema drift)
+ * - `unhealthy`: the connection failed
+ */
+export type SequelizeHealthStatus = 'healthy' | 'degraded' | 'unhealthy';
+
 /**
  * Extended health check result specific to Sequelize managers.
  * Includes database connection details, model information, and query response time.
@@ -267,6 +879,10 @@ export function getConnection(registry: Registry, managerName?: string): Sequeli
  * @extends HealthCheckResult
  */
 export interface SequelizeHealthCheckResult extends HealthCheckResult {
+  /**
+   * Overall status. A degraded manager is still `healthy` as its connection works.
+   */
+  status: SequelizeHealthStatus;
   /**
    * Detailed information about the Sequelize connection health.
    */
@@ -283,6 +899,12 @@ export interface SequelizeHealthCheckResult extends HealthCheckResult {
     modelCount?: number;
     /** Time taken to perform the health check query in milliseconds */
     latency?: string;
+    /** Connection pool statistics, with `read` and `write` pools when replication is used */
+    pool?: SequelizePoolStats & { read?: SequelizePoolStats; write?: SequelizePoolStats };
+    /** Schema drift of the registered models, in deep mode */
+    drift?: SchemaChange[];
+    /** Health of the writer and of each read replica, when replication is used */
+    replication?: { writer: ReplicaHealth; replicas: ReplicaHealth[] };
     /** Error message or stack trace if the health check failed */
     error?: string;
     /** Additional custom properties */
@@ -337,7 +959,7 @@ export interface SequelizeHealthCheckResult extends HealthCheckResult {
  * const users = await User.findAll();
  * ```
  */
-export class SequelizeManager extends Sequelize implements IManager {
+export class SequelizeManager<TModels extends ModelMap = ModelMap> extends Sequelize implements IManager {
   /**
    * Identifier for the manager type.
    * @readonly
@@ -351,121 +973,1526 @@ export class SequelizeManager extends Sequelize implements IManager {
   protected name: string;
 
   /**
-   * Creates a new SequelizeManager instance.
-   *
-   * @param settings - Configuration settings for the manager
-   *
-   * @remarks
-   * The Sequelize connection is created immediately and models are initialized.
-   * If logging is not specified in options, it defaults to debug logging via @novice1/logger.
-   * Models can be initialized either by providing a pre-defined model class or by
-   * defining attributes and options directly.
+   * The migration runner, if migrations are configured.
+   * @protected
    */
-  constructor(settings: SequelizeManagerArg) {
-    let options: Options = {};
+  protected migrator?: Migrator;
 
-    if (settings.config?.options) {
-      options = {
-        ...settings.config.options,
-      };
-    }
+  /**
+   * The seeder runner, if seeders are configured.
+   * @protected
+   */
+  protected seederRunner?: SeederRunner;
 
-    if (typeof options.logging === 'undefined') {
-      options.logging = (msg) => Log.debug(`[${this.name}]`, msg);
-    }
+  /**
+   * The schema synchronization settings.
+   * @protected
+   */
+  protected syncSettings: SyncSettings;
 
-    super(options);
+  /**
+   * The default health check options.
+   * @protected
+   */
+  protected healthCheckOptions: SequelizeHealthCheckOptions;
 
-    this.name = settings.name || `Sequelize ${Date.now()}_${Math.ceil(Math.random() * 10000) + 10}`;
+  /**
+   * The connect settings.
+   * @protected
+   */
+  protected connectSettings: ConnectSettings;
 
-    settings.config?.models?.forEach((m) => {
-      if (m.model && m.model.init) {
-        const options = {
-          ...m.options,
-          sequelize: this,
-        };
-        if (!options.modelName) {
-          options.modelName = m.model.name;
+  /**
+   * The pending or resolved connection started by {@link connect}.
+   * @protected
+   */
+  protected readyPromise?: Promise<this>;
+
+  /**
+   * Whether {@link connect} succeeded.
+   * @protected
+   */
+  protected readyState = false;
+
+  /**
+   * The shutdown settings.
+   * @protected
+   */
+  protected shutdownSettings: ShutdownSettings;
+
+  /**
+   * Whether {@link closeConnection} has been called.
+   * @protected
+   */
+  protected closing = false;
+
+  /**
+   * Number of queries in progress.
+   * @protected
+   */
+  protected activeQueries = 0;
+
+  /**
+   * Number of transactions in progress.
+   * @protected
+   */
+  protected activeTransactions = 0;
+
+  /**
+   * Called when no query nor transaction is in progress anymore.
+   * @protected
+   */
+  protected onIdle?: () => void;
+
+  /**
+   * The query metrics, if instrumentation is enabled.
+   * @protected
+   */
+  protected metrics?: QueryMetrics;
+
+  /**
+   * The default retry policy of {@link withTransaction}.
+   * @protected
+   */
+  protected transactionSettings: TransactionRetrySettings;
+
+  /**
+   * The transaction opened by the enclosing {@link withTransaction} call.
+   * @protected
+   */
+  protected transactionStorage = new AsyncLocalStorage<Transaction>();
+
+  /**
+   * The schema-per-tenant settings.
+   * @protected
+   */
+  protected tenancySettings: TenancySettings;
+
+  /**
+   * The tenant views created by {@link forTenant}, by tenant ID.
+   * @protected
+   */
+  protected tenants = new Map<string, TenantScope>();
+
+  /**
+   * The read replica router, if replication is used.
+   * @protected
+   */
+  protected replicaRouter?: ReplicaRouter;
+
+  /**
+   * The read replica settings.
+   * @protected
+   */
+  protected replicationSettings: ReplicationSettings;
+
+  /**
+   * The timer of the periodic replica checks.
+   * @protected
+   */
+  protected replicaTimer?: ReturnType<typeof setInterval>;
+
+  /**
+   * Set within {@link useWriter}.
+   * @protected
+   */
+  protected writerStorage = new AsyncLocalStorage<boolean>();
+
+  /**
+   * Emitter of the {@link SequelizeManagerEvents}.
+   * @protected
+   */
+  protected events = new EventEmitter();
+
+  /**
+   * Audit trail settings.
+   * @protected
+   */
+  protected auditSettings: AuditSettings;
+
+  /**
+   * Audit trail of the audited models, created with the first of them.
+   * @protected
+   */
+  protected auditTrail?: AuditTrail;
+
+  /**
+   * Encryptor of the encrypted attributes, created when encryption is configured.
+   * @protected
+   */
+  protected encryptor?: FieldEncryptor;
+
+  /**
+   * Query cache settings.
+   * @protected
+   */
+  protected cacheSettings: CacheSettings;
+
+  /**
+   * Query cache of the cached models, created with the first of them.
+   * @protected
+   */
+  protected queryCache?: QueryCache;
+
+  /**
+   * Tracker of the changes of the models, created when change events are enabled.
+   * @protected
+   */
+  protected changeTracker?: ChangeTracker;
+
+  /**
+   * Creates a new SequelizeManager instance.
+   *
+   * @param settings - Configuration settings for the manager
+   *
+   * @remarks
+   * The Sequelize connection is created immediately and models are initialized.
+   * If logging is not specified in options, it defaults to debug logging via @novice1/logger,
+   * prefixed with the fields of the current {@link QueryContext}.
+   * Models can be initialized either by providing a pre-defined model class or by
+   * defining attributes and options directly.
+   *
+   * @throws {InvalidManagerConfigError} If the configuration has problems, all listed in the message (see {@link validateSettings})
+   */
+  constructor(settings: SequelizeManagerArg) {
+    let options: Options = {};
+
+    if (settings.config?.options) {
+      options = {
+        ...settings.config.options,
+      };
+    }
+
+    // the whole configuration is validated before connecting
+    const models = getModelSettingsSources(settings.config || {});
+    const problems = [
+      ...getOptionsProblems(options),
+      ...getModelsProblems(models, options.dialect),
+      ...getEncryptionProblems(settings.config?.encryption, models),
+    ];
+    if (problems.length) {
+      throw toConfigError(problems, settings.name);
+    }
+
+    if (typeof options.logging === 'undefined') {
+      options.logging = (msg) => {
+        const context = formatContext(getContext());
+        if (context) {
+          Log.debug(`[${this.name}]`, `[${context}]`, msg);
+        } else {
+          Log.debug(`[${this.name}]`, msg);
+        }
+      };
+    }
+
+    super(options);
+
+    this.name = settings.name || `Sequelize ${Date.now()}_${Math.ceil(Math.random() * 10000) + 10}`;
+    this.auditSettings = settings.config?.audit || {};
+    this.cacheSettings = settings.config?.cache || {};
+    const changeEvents = settings.config?.changeEvents;
+    if (changeEvents) {
+      this.changeTracker = new ChangeTracker(this, this.name, changeEvents === true ? {} : changeEvents, (event) =>
+        this.events.emit(event.type, event)
+      );
+      this.changeTracker.start();
+    }
+    if (settings.config?.encryption) {
+      this.encryptor = new FieldEncryptor(settings.config.encryption);
+    }
+
+    const initialized: [ModelStatic<Model>, ModelSettings][] = [];
+    models.forEach(({ settings: m }) => {
+      const model = this.initModel(m);
+      if (model) {
+        initialized.push([model, m]);
+      }
+    });
+
+    // associations are applied once every model exists
+    initialized.forEach(([model, m]) => this.associateModel(model, m));
+
+    if (settings.config?.migrations) {
+      this.migrator = new Migrator(this, settings.config.migrations);
+    }
+
+    if (settings.config?.seeders) {
+      this.seederRunner = new SeederRunner(this, settings.config.seeders);
+    }
+
+    this.syncSettings = settings.config?.sync || {};
+    this.healthCheckOptions = settings.config?.healthCheck || {};
+    this.connectSettings = settings.config?.connect || {};
+    this.shutdownSettings = settings.config?.shutdown || {};
+    this.transactionSettings = settings.config?.transactions || {};
+    this.tenancySettings = settings.config?.tenancy || {};
+    this.replicationSettings = settings.config?.replication || {};
+
+    if (options.replication) {
+      this.replicaRouter = new ReplicaRouter(
+        this.connectionManager as unknown as ReplicatedConnectionManager,
+        this.replicationSettings
+      );
+      if (this.replicationSettings.checkInterval) {
+        this.replicaTimer = setInterval(() => {
+          this.checkReplicas().catch((error) => Log.debug(`[${this.name}]`, 'replica check failed', error));
+        }, this.replicationSettings.checkInterval);
+        this.replicaTimer.unref?.();
+      }
+    }
+
+    if (settings.config?.instrumentation?.enabled) {
+      this.metrics = new QueryMetrics(this.name, settings.config.instrumentation);
+    }
+  }
+
+  /**
+   * Initializes a model from its settings.
+   *
+   * @param m - The model settings
+   *
+   * @returns The initialized model, or undefined if the settings have neither a model class nor a model name
+   */
+  protected initModel(m: ModelSettings): ModelStatic<Model> | undefined {
+    const encrypted: Record<string, EncryptedAttributeOptions> = {};
+    Object.entries(m.encrypted || {}).forEach(([name, options]) => {
+      if (options) {
+        encrypted[name] = options === true ? {} : options;
+      }
+    });
+    const attributes =
+      this.encryptor && Object.keys(encrypted).length
+        ? this.encryptor.wrapAttributes(m.attributes, encrypted)
+        : m.attributes;
+
+    let model: ModelStatic<Model> | undefined;
+    if (m.model && m.model.init) {
+      const options = {
+        ...m.options,
+        sequelize: this,
+      };
+      if (!options.modelName) {
+        options.modelName = m.model.name;
+      }
+      m.model.init(attributes, options);
+      model = m.model;
+    } else if (m.options?.modelName) {
+      model = this.define(m.options.modelName, attributes, m.options);
+    }
+    if (model && this.encryptor && Object.keys(encrypted).length) {
+      this.encryptor.attach(model, encrypted);
+    }
+    if (model && m.audit) {
+      this.getAuditTrail().attach(model, m.audit === true ? {} : m.audit);
+    }
+    if (model && this.changeTracker?.tracks(model.name)) {
+      this.changeTracker.attach(model);
+    }
+    if (model && m.cache) {
+      this.getQueryCache().attach(model, m.cache === true ? {} : m.cache);
+    }
+    return model;
+  }
+
+  /**
+   * Returns the query cache, created on first use.
+   */
+  protected getQueryCache(): QueryCache {
+    if (!this.queryCache) {
+      this.queryCache = new QueryCache(this.name, this.cacheSettings);
+    }
+    return this.queryCache;
+  }
+
+  /**
+   * Returns the audit trail, defining the audit log model on first use.
+   */
+  protected getAuditTrail(): AuditTrail {
+    if (!this.auditTrail) {
+      this.auditTrail = new AuditTrail(this, this.auditSettings);
+    }
+    return this.auditTrail;
+  }
+
+  /**
+   * Applies the declared associations and the `associate` callback of a model.
+   *
+   * @param model - The initialized model
+   * @param m - The model settings
+   *
+   * @throws {InvalidManagerConfigError} If an association targets a model that is not registered
+   */
+  protected associateModel(model: ModelStatic<Model>, m: ModelSettings): void {
+    m.associations?.forEach((a) => {
+      if (!this.isDefined(a.target)) {
+        throw new InvalidManagerConfigError(
+          `Association "${a.type}" of model "${model.name}" targets model "${a.target}" which is not registered in manager "${this.name}"`
+        );
+      }
+      const target = this.model(a.target);
+      switch (a.type) {
+        case 'hasOne':
+          model.hasOne(target, a.options);
+          break;
+        case 'hasMany':
+          model.hasMany(target, a.options);
+          break;
+        case 'belongsTo':
+          model.belongsTo(target, a.options);
+          break;
+        case 'belongsToMany':
+          model.belongsToMany(target, a.options);
+          break;
+      }
+    });
+    m.associate?.(this.models);
+  }
+
+  /**
+   * Connects to the database, retrying with exponential backoff and jitter until authentication
+   * succeeds, then optionally runs pending migrations and applies the sync policy.
+   * Calling it again returns the same pending or resolved connection; after a failure, a new attempt is made.
+   *
+   * @returns A promise that resolves to the manager once it is ready
+   *
+   * @throws {ConnectionError} If authentication still fails after all retries
+   *
+   * @example
+   * ```typescript
+   * const manager = new SequelizeManager({
+   *   name: 'primary-db',
+   *   config: {
+   *     options: { dialect: 'postgres', host: 'db' },
+   *     connect: { retries: 10, migrate: true }
+   *   }
+   * });
+   * await manager.connect();
+   * ```
+   */
+  connect(): Promise<this> {
+    if (!this.readyPromise) {
+      this.readyPromise = this.runConnect().then(
+        (manager) => {
+          this.readyState = true;
+          return manager;
+        },
+        (error) => {
+          this.readyPromise = undefined;
+          throw error;
+        }
+      );
+    }
+    return this.readyPromise;
+  }
+
+  /**
+   * Waits until the manager is ready, starting {@link connect} if it has not been called yet.
+   *
+   * @returns A promise that resolves to the manager once it is ready
+   *
+   * @throws {ConnectionError} If authentication still fails after all retries
+   *
+   * @example
+   * ```typescript
+   * await manager.ready();
+   * ```
+   */
+  ready(): Promise<this> {
+    return this.connect();
+  }
+
+  /**
+   * Whether {@link connect} has succeeded.
+   *
+   * @returns True if the manager is ready
+   */
+  isReady(): boolean {
+    return this.readyState;
+  }
+
+  /**
+   * Authenticates with retries, then runs the startup steps.
+   */
+  protected async runConnect(): Promise<this> {
+    const { retries = 5, migrate, sync } = this.connectSettings;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.authenticate();
+        break;
+      } catch (error) {
+        if (attempt > retries) {
+          throw new ConnectionError(
+            `Manager "${this.name}" could not connect after ${attempt} attempt(s)`,
+            error instanceof Error ? error : undefined
+          );
+        }
+        const delay = computeBackoff(attempt, this.connectSettings);
+        Log.debug(`[${this.name}]`, `connection attempt ${attempt} failed, retrying in ${Math.round(delay)}ms`);
+        await sleep(delay);
+      }
+    }
+    if (migrate) {
+      await this.migrate();
+    }
+    if (sync) {
+      await this.syncSchema();
+    }
+    return this;
+  }
+
+  /**
+   * Retrieves the Sequelize connection instance.
+   *
+   * @returns The Sequelize instance (this manager itself)
+   *
+   * @example
+   * ```typescript
+   * const sequelize = manager.getConnection();
+   * const [results] = await sequelize.query('SELECT NOW()');
+   * ```
+   */
+  getConnection(): Sequelize {
+    return this;
+  }
+
+  /**
+   * Closes the Sequelize connection.
+   * Terminates all active connections in the pool.
+   *
+   * @param options - Optional shutdown options, merged with the configured `shutdown` settings
+   *
+   * @returns A promise that resolves to a report of the shutdown once the connection is closed
+   *
+   * @remarks
+   * In graceful mode, new queries and transactions are rejected right away with a {@link ManagerClosingError},
+   * while queries of transactions already open are still accepted. The manager waits for active queries
+   * and transactions to finish, up to the timeout, then force-closes the connection and reports what was aborted.
+   *
+   * @example
+   * ```typescript
+   * const report = await manager.closeConnection({ graceful: true, timeout: 15000 });
+   * if (!report.drained) {
+   *   console.warn(`Aborted ${report.abortedTransactions} transaction(s)`);
+   * }
+   * ```
+   */
+  async closeConnection(options?: ShutdownSettings): Promise<ShutdownReport> {
+    const { graceful = false, timeout = 10000 } = { ...this.shutdownSettings, ...options };
+    const start = Date.now();
+    this.closing = true;
+    clearInterval(this.replicaTimer);
+    this.changeTracker?.stop();
+
+    if (graceful && !this.isIdle()) {
+      Log.debug(
+        `[${this.name}]`,
+        `draining ${this.activeQueries} query(ies) and ${this.activeTransactions} transaction(s)`
+      );
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, timeout);
+        this.onIdle = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      this.onIdle = undefined;
+    }
+
+    const report: ShutdownReport = {
+      graceful,
+      drained: this.isIdle(),
+      abortedQueries: this.activeQueries,
+      abortedTransactions: this.activeTransactions,
+      duration: 0,
+    };
+    await this.close();
+    report.duration = Date.now() - start;
+    return report;
+  }
+
+  /**
+   * Runs a query, rejecting it with a {@link ManagerClosingError} if the manager is closing
+   * and the query is not part of an open transaction. Queries are recorded when instrumentation is enabled.
+   * With replication, reads go to the writer within {@link useWriter} or when every read replica is out of rotation.
+   *
+   * @param sql - The SQL query
+   * @param options - The query options
+   *
+   * @returns The query result, typed as by `Sequelize.query`
+   */
+  query(sql: string | SqlWithValues, options: QueryOptionsWithType<QueryTypes.UPDATE>): Promise<[undefined, number]>;
+  query(sql: string | SqlWithValues, options: QueryOptionsWithType<QueryTypes.BULKUPDATE>): Promise<number>;
+  query(sql: string | SqlWithValues, options: QueryOptionsWithType<QueryTypes.INSERT>): Promise<[number, number]>;
+  query(sql: string | SqlWithValues, options: QueryOptionsWithType<QueryTypes.UPSERT>): Promise<number>;
+  query(sql: string | SqlWithValues, options: QueryOptionsWithType<QueryTypes.DELETE>): Promise<void>;
+  query(sql: string | SqlWithValues, options: QueryOptionsWithType<QueryTypes.BULKDELETE>): Promise<number>;
+  query(sql: string | SqlWithValues, options: QueryOptionsWithType<QueryTypes.SHOWTABLES>): Promise<string[]>;
+  query(sql: string | SqlWithValues, options: QueryOptionsWithType<QueryTypes.DESCRIBE>): Promise<ColumnsDescription>;
+  query<M extends Model>(
+    sql: string | SqlWithValues,
+    options: QueryOptionsWithModel<M> & { plain: true }
+  ): Promise<M | null>;
+  query<M extends Model>(sql: string | SqlWithValues, options: QueryOptionsWithModel<M>): Promise<M[]>;
+  query<T extends object>(
+    sql: string | SqlWithValues,
+    options: QueryOptionsWithType<QueryTypes.SELECT> & { plain: true }
+  ): Promise<T | null>;
+  query<T extends object>(sql: string | SqlWithValues, options: QueryOptionsWithType<QueryTypes.SELECT>): Promise<T[]>;
+  query(
+    sql: string | SqlWithValues,
+    options: (QueryOptions | QueryOptionsWithType<QueryTypes.RAW>) & { plain: true }
+  ): Promise<{ [key: string]: unknown } | null>;
+  query(
+    sql: string | SqlWithValues,
+    options?: QueryOptions | QueryOptionsWithType<QueryTypes.RAW>
+  ): Promise<[unknown[], unknown]>;
+  async query(sql: string | SqlWithValues, options?: QueryOptions & { model?: ModelStatic<Model> }): Promise<unknown> {
+    if (this.closing && !options?.transaction) {
+      throw new ManagerClosingError(this.name);
+    }
+    if (this.replicaRouter && (this.writerStorage.getStore() || this.replicaRouter.isDown())) {
+      options = { ...options, useMaster: true };
+    }
+    this.activeQueries++;
+    const start = process.hrtime();
+    let failed = false;
+    try {
+      return await super.query(sql, options);
+    } catch (error) {
+      failed = true;
+      throw error;
+    } finally {
+      this.activeQueries--;
+      if (this.metrics) {
+        const [seconds, nanoseconds] = process.hrtime(start);
+        this.metrics.record({
+          model: options?.model?.name || options?.instance?.constructor.name,
+          operation: String(options?.type || 'raw').toLowerCase(),
+          duration: seconds * 1000 + nanoseconds / 1e6,
+          error: failed,
+          sql: typeof sql === 'string' ? sql : sql.query,
+          context: getContext(),
+        });
+      }
+      this.checkIdle();
+    }
+  }
+
+  /**
+   * Starts a transaction, rejecting it with a {@link ManagerClosingError} if the manager is closing
+   * and the transaction is not nested in an open one.
+   * Transactions are tracked so that a graceful shutdown waits for them.
+   */
+  transaction<T>(options: TransactionOptions, autoCallback: (t: Transaction) => PromiseLike<T>): Promise<T>;
+  transaction<T>(autoCallback: (t: Transaction) => PromiseLike<T>): Promise<T>;
+  transaction(options?: TransactionOptions): Promise<Transaction>;
+  async transaction<T>(
+    optionsOrCallback?: TransactionOptions | ((t: Transaction) => PromiseLike<T>),
+    autoCallback?: (t: Transaction) => PromiseLike<T>
+  ): Promise<T | Transaction> {
+    const options = typeof optionsOrCallback === 'function' ? {} : optionsOrCallback || {};
+    const callback = typeof optionsOrCallback === 'function' ? optionsOrCallback : autoCallback;
+    if (this.closing && !options.transaction) {
+      throw new ManagerClosingError(this.name);
+    }
+
+    this.activeTransactions++;
+    let done = false;
+    const finish = () => {
+      if (!done) {
+        done = true;
+        this.activeTransactions--;
+        this.checkIdle();
+      }
+    };
+
+    if (callback) {
+      try {
+        return await super.transaction(options, callback);
+      } finally {
+        finish();
+      }
+    }
+
+    let t: Transaction;
+    try {
+      t = await super.transaction(options);
+    } catch (error) {
+      finish();
+      throw error;
+    }
+    const commit = t.commit.bind(t);
+    const rollback = t.rollback.bind(t);
+    t.commit = async () => {
+      try {
+        return await commit();
+      } finally {
+        finish();
+      }
+    };
+    t.rollback = async () => {
+      try {
+        return await rollback();
+      } finally {
+        finish();
+      }
+    };
+    return t;
+  }
+
+  /**
+   * Runs a function within a request-scoped context. Queries run in its scope carry the context
+   * in the default query logs and in the recorded slow queries, and model hooks can read it with {@link getContext}.
+   * The context is shared by all managers, a nested context is merged with the enclosing one.
+   *
+   * @param context - The context fields, e.g. `requestId` and `userId`
+   * @param fn - The function to run
+   *
+   * @returns The result of the function
+   *
+   * @example
+   * ```typescript
+   * app.use((req, res, next) => {
+   *   manager.runWithContext({ requestId: req.get('x-request-id'), userId: req.user?.id }, next);
+   * });
+   * ```
+   */
+  runWithContext<T>(context: QueryContext, fn: () => T): T {
+    return runWithContext(context, fn);
+  }
+
+  /**
+   * Returns the context of the current scope.
+   *
+   * @returns The context, or undefined outside of {@link runWithContext}
+   *
+   * @example
+   * ```typescript
+   * User.addHook('beforeCreate', (user) => {
+   *   user.set('createdBy', manager.getContext()?.userId);
+   * });
+   * ```
+   */
+  getContext(): QueryContext | undefined {
+    return getContext();
+  }
+
+  /**
+   * Runs a function in a managed transaction, retrying it with exponential backoff when it fails
+   * with a transient error: deadlock, serialization failure, lock timeout or lost connection (see {@link isTransientError}).
+   * When called inside another `withTransaction` callback (or with a `transaction` option), the function runs
+   * in a savepoint of the enclosing transaction and is not retried on its own: the outermost call retries the whole transaction.
+   *
+   * @param fn - The function to run, receiving the transaction. It may be called several times.
+   * @param options - Transaction options (e.g. `isolationLevel`) and retry policy, merged with the configured `transactions` settings
+   *
+   * @returns A promise that resolves to the result of the function once the transaction is committed
+   *
+   * @throws The error of the last attempt, or the first permanent error
+   *
+   * @example
+   * ```typescript
+   * const order = await manager.withTransaction(
+   *   async (transaction) => {
+   *     const stock = await Stock.findByPk(itemId, { transaction, lock: true });
+   *     await stock.decrement('quantity', { transaction });
+   *     return Order.create({ itemId }, { transaction });
+   *   },
+   *   {
+   *     isolationLevel: Transaction.ISOLATION_LEVELS.SERIALIZABLE,
+   *     retries: 5,
+   *     onRetry: ({ attempt, error }) => logger.warn(`retrying order (${attempt})`, error)
+   *   }
+   * );
+   * ```
+   */
+  async withTransaction<T>(fn: (t: Transaction) => PromiseLike<T>, options?: WithTransactionOptions): Promise<T> {
+    const {
+      retries = 3,
+      backoff,
+      retryOn,
+      onRetry,
+      ...transactionOptions
+    } = { ...this.transactionSettings, ...options };
+    const run = (t: Transaction) => this.transactionStorage.run(t, () => fn(t));
+
+    const parent =
+      transactionOptions.transaction === undefined
+        ? this.transactionStorage.getStore()
+        : transactionOptions.transaction;
+    if (parent) {
+      return this.transaction({ ...transactionOptions, transaction: parent }, run);
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.transaction({ ...transactionOptions, transaction: undefined }, run);
+      } catch (error) {
+        const transient = retryOn ? retryOn(error, attempt) : isTransientError(error, this.getDialect() as Dialect);
+        if (!transient || attempt > retries) {
+          throw error;
+        }
+        const delay = computeBackoff(attempt, { initialDelay: 50, maxDelay: 2000, ...backoff });
+        Log.debug(`[${this.name}]`, `transaction attempt ${attempt} failed, retrying in ${Math.round(delay)}ms`);
+        onRetry?.({ manager: this.name, attempt, delay, error });
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Runs a function with every query of its scope sent to the writer, e.g. to read your own writes
+   * right after them. Without replication, the function simply runs.
+   *
+   * @param fn - The function to run
+   *
+   * @returns The result of the function
+   *
+   * @example
+   * ```typescript
+   * const user = await manager.useWriter(async () => {
+   *   await User.update({ name }, { where: { id } });
+   *   return User.findByPk(id);
+   * });
+   * ```
+   */
+  useWriter<T>(fn: () => T): T {
+    return this.writerStorage.run(true, fn);
+  }
+
+  /**
+   * Checks each read replica by opening a connection to it. A replica failing `failureThreshold`
+   * consecutive checks is removed from rotation until a check succeeds again.
+   * Called by {@link healthCheck} and every `checkInterval` milliseconds if configured.
+   *
+   * @param timeout - Maximum time of each check in milliseconds, after which the replica is unhealthy.
+   * Defaults to `timeout` of the replication settings.
+   *
+   * @returns A promise that resolves to the health of each read replica, empty without replication
+   *
+   * @example
+   * ```typescript
+   * const down = (await manager.checkReplicas()).filter((r) => !r.inRotation);
+   * ```
+   */
+  async checkReplicas(timeout = this.replicationSettings.timeout ?? 5000): Promise<ReplicaHealth[]> {
+    const router = this.replicaRouter;
+    if (!router) {
+      return [];
+    }
+    return Promise.all(
+      router.getReplicas().map(async (config, index) => {
+        const start = Date.now();
+        let error: string | undefined;
+        try {
+          await withTimeout(this.probeReplica(config), timeout, `Replica check timed out after ${timeout}ms`);
+        } catch (e) {
+          error = e instanceof Error ? e.message : String(e);
+        }
+        router.report(index, !error);
+        return {
+          role: 'read' as const,
+          index,
+          host: config.host,
+          port: config.port,
+          healthy: !error,
+          inRotation: router.isInRotation(index),
+          latency: Date.now() - start,
+          error,
+        };
+      })
+    );
+  }
+
+  /**
+   * Opens and closes a connection to a read replica.
+   *
+   * @param config - The connection options of the replica
+   */
+  protected async probeReplica(config: ConnectionOptions): Promise<void> {
+    const connectionManager = this.connectionManager as unknown as ReplicatedConnectionManager;
+    const connection = await connectionManager._connect(config);
+    await connectionManager._disconnect(connection);
+  }
+
+  /**
+   * Whether no query nor transaction is in progress.
+   */
+  protected isIdle(): boolean {
+    return this.activeQueries === 0 && this.activeTransactions === 0;
+  }
+
+  /**
+   * Calls {@link onIdle} if no query nor transaction is in progress anymore.
+   */
+  protected checkIdle(): void {
+    if (this.onIdle && this.isIdle()) {
+      this.onIdle();
+    }
+  }
+
+  /**
+   * Fetches a model of the typed model map of the manager.
+   * The name is checked at compile time and the model class is inferred.
+   *
+   * @param name - The name of the model to retrieve
+   *
+   * @returns The requested model class
+   *
+   * @example
+   * ```typescript
+   * const manager = new SequelizeManager<{ movies: typeof Movie }>({ ... });
+   * const Movies = manager.getModel('movies'); // typeof Movie
+   * ```
+   */
+  getModel<K extends ModelName<TModels>>(name: K): TModels[K];
+  /**
+   * Fetches a model that has already been defined in this Sequelize instance.
+   *
+   * @template M - The ModelStatic type, defaults to ModelStatic<Model>
+   *
+   * @param name - The name of the model to retrieve
+   *
+   * @returns The requested model class
+   *
+   * @example
+   * ```typescript
+   * const User = manager.getModel('User');
+   * const user = await User.findOne({ where: { email: 'user@example.com' } });
+   * ```
+   */
+  getModel<M extends ModelStatic<Model> = ModelStatic<Model>>(name: ModelName<TModels>): M;
+  /**
+   * Fetches a model that has already been defined in this Sequelize instance.
+   *
+   * @template M - The Model type, defaults to Model
+   *
+   * @param name - The name of the model to retrieve
+   *
+   * @returns The requested model class
+   */
+  getModel<M extends Model = Model>(name: ModelName<TModels>): ModelStatic<M>;
+  /**
+   * Fetches a model that has already been defined in this Sequelize instance.
+   *
+   * @template TModelAttributes - The model attributes type
+   * @template TCreationAttributes - The creation attributes type
+   *
+   * @param name - The name of the model to retrieve
+   *
+   * @returns The requested model class
+   */
+  getModel<
+    TModelAttributes extends Record<string, unknown> = AnyJsonObject,
+    TCreationAttributes extends Record<string, unknown> = AnyJsonObject,
+  >(name: ModelName<TModels>): ModelStatic<Model<TModelAttributes, TCreationAttributes>>;
+  getModel<M extends ModelStatic<Model> = ModelStatic<Model>>(name: string): M {
+    return this.model(name) as M;
+  }
+
+  /**
+   * Registers a model after the manager was constructed, as if it were in `models`.
+   * The settings are validated, the declared associations and the `associate` callback are applied,
+   * then a `modelRegistered` event is emitted.
+   *
+   * @param settings - The model settings
+   * @param options - Registration options
+   *
+   * @returns A promise that resolves to the registered model
+   *
+   * @throws {InvalidManagerConfigError} If the settings are invalid, the name is already registered
+   * or an association targets a model that is not registered
+   *
+   * @example
+   * ```typescript
+   * const Tags = await manager.registerModel(tagSettings, { sync: true });
+   * ```
+   */
+  async registerModel<M extends ModelStatic<Model> = ModelStatic<Model>>(
+    settings: ModelSettings,
+    options: RegisterModelOptions = {}
+  ): Promise<M> {
+    const name = getModelSettingsName(settings);
+    const problems = getModelsProblems([{ source: 'registerModel', settings }], this.getDialect() as Dialect);
+    if (name && this.isDefined(name)) {
+      problems.push(`model "${name}" is already registered`);
+    }
+    if (!this.encryptor) {
+      problems.push(...getEncryptionProblems(undefined, [{ source: 'registerModel', settings }]));
+    }
+    settings.associations
+      ?.filter((a) => a.target !== name && !this.isDefined(a.target))
+      .forEach((a) => problems.push(`association "${a.type}" targets model "${a.target}" which is not registered`));
+    if (problems.length) {
+      throw toConfigError(problems, this.name);
+    }
+
+    const model = this.initModel(settings);
+    if (!model) {
+      throw toConfigError(['registerModel: model has neither a model class nor options.modelName'], this.name);
+    }
+    this.associateModel(model, settings);
+    if (options.sync) {
+      await model.sync();
+    }
+
+    Log.debug(`[${this.name}]`, `registered model "${model.name}"`);
+    this.tenants.forEach((tenant) => tenant.clearModels());
+    this.events.emit('modelRegistered', { manager: this.name, name: model.name, model });
+    return model as M;
+  }
+
+  /**
+   * Removes a model from the manager, along with the associations of other models targeting it
+   * and its cache, encryption, audit and change event hooks, then emits a `modelRemoved` event.
+   * The table is not dropped.
+   *
+   * @param name - The name of the model
+   *
+   * @throws {ModelNotFoundError} If the model is not registered
+   *
+   * @example
+   * ```typescript
+   * manager.unregisterModel('tags');
+   * ```
+   */
+  unregisterModel(name: string): void {
+    if (!this.isDefined(name)) {
+      throw new ModelNotFoundError(name, this.name);
+    }
+    const model = this.model(name);
+    this.queryCache?.detach(model);
+    this.encryptor?.detach(model);
+    this.auditTrail?.detach(model);
+    this.changeTracker?.detach(model);
+    this.modelManager.removeModel(model);
+    Object.values(this.models).forEach((other) => {
+      Object.entries(other.associations).forEach(([alias, association]) => {
+        if (association.target === model) {
+          delete other.associations[alias];
         }
-        m.model.init(m.attributes, options);
-      } else if (m.options?.modelName) {
-        this.define(m.options.modelName, m.attributes, m.options);
+      });
+    });
+
+    Log.debug(`[${this.name}]`, `removed model "${name}"`);
+    this.tenants.forEach((tenant) => tenant.clearModels());
+    this.events.emit('modelRemoved', { manager: this.name, name, model });
+  }
+
+  /**
+   * Adds a listener of a manager event.
+   *
+   * @param event - The event name
+   * @param listener - Called with the payload of the event
+   *
+   * @returns The manager
+   *
+   * @example
+   * ```typescript
+   * manager.on('modelRegistered', ({ name }) => console.log(`model ${name} registered`));
+   * ```
+   */
+  on<E extends keyof SequelizeManagerEvents>(event: E, listener: (payload: SequelizeManagerEvents[E]) => void): this {
+    this.events.on(event, listener);
+    return this;
+  }
+
+  /**
+   * Adds a listener of a manager event, removed after its first call.
+   *
+   * @param event - The event name
+   * @param listener - Called with the payload of the event
+   *
+   * @returns The manager
+   */
+  once<E extends keyof SequelizeManagerEvents>(event: E, listener: (payload: SequelizeManagerEvents[E]) => void): this {
+    this.events.once(event, listener);
+    return this;
+  }
+
+  /**
+   * Removes a listener of a manager event.
+   *
+   * @param event - The event name
+   * @param listener - The listener to remove
+   *
+   * @returns The manager
+   */
+  off<E extends keyof SequelizeManagerEvents>(event: E, listener: (payload: SequelizeManagerEvents[E]) => void): this {
+    this.events.off(event, listener);
+    return this;
+  }
+
+  /**
+   * Iterates over the rows of a registered model in batches, with a keyset condition instead of an offset.
+   *
+   * @template M - The Model type
+   *
+   * @param modelName - The name of the model
+   * @param options - Iteration options, with `where`, `include` and the other find options
+   *
+   * @returns An async iterator of the batches, in the order of the sort keys completed by the primary key
+   *
+   * @throws {ModelNotFoundError} If the model is not registered
+   * @throws {PaginationError} If a sort key is not an attribute of the model or a row has no value for it
+   *
+   * @example
+   * ```typescript
+   * for await (const batch of manager.iterateBatches('orders', { where: { status: 'pending' }, batchSize: 1000 })) {
+   *   await process(batch);
+   * }
+   * ```
+   */
+  async *iterateBatches<M extends Model = Model>(
+    modelName: ModelName<TModels>,
+    options?: IterateBatchesOptions<M>
+  ): AsyncGenerator<M[], void, undefined> {
+    if (!this.isDefined(modelName)) {
+      throw new ModelNotFoundError(modelName, this.name);
+    }
+    yield* iterateBatches(this.model(modelName) as ModelStatic<M>, options);
+  }
+
+  /**
+   * Fetches a page of rows of a registered model with keyset (cursor) pagination.
+   *
+   * @template M - The Model type
+   *
+   * @param modelName - The name of the model
+   * @param options - Pagination options, with the `after` or `before` cursor
+   *
+   * @returns A promise that resolves to the rows, `hasNext`, `hasPrevious` and the cursors of the page
+   *
+   * @throws {ModelNotFoundError} If the model is not registered
+   * @throws {PaginationError} If a cursor is invalid or was made with another order
+   *
+   * @example
+   * ```typescript
+   * const page = await manager.paginate('movies', { order: [['year', 'DESC']], limit: 20, after: req.query.cursor });
+   * res.json({ movies: page.rows, next: page.hasNext ? page.endCursor : null });
+   * ```
+   */
+  async paginate<M extends Model = Model>(
+    modelName: ModelName<TModels>,
+    options?: PaginateOptions<M>
+  ): Promise<Page<M>> {
+    if (!this.isDefined(modelName)) {
+      throw new ModelNotFoundError(modelName, this.name);
+    }
+    return paginate(this.model(modelName) as ModelStatic<M>, options);
+  }
+
+  /**
+   * Emits the change events stored in the outbox, oldest first, and removes them from the outbox.
+   * Called every `pollInterval` milliseconds when it is set.
+   *
+   * @returns A promise that resolves to the number of dispatched events
+   *
+   * @throws {InvalidManagerConfigError} If the outbox is not enabled
+   * @throws The error of a listener, the events emitted before it are removed from the outbox
+   *
+   * @example
+   * ```typescript
+   * manager.on('created', (e) => searchIndex.add(e.model, e.primaryKey));
+   * await manager.dispatchOutbox();
+   * ```
+   */
+  async dispatchOutbox(): Promise<number> {
+    if (!this.changeTracker?.outbox) {
+      throw new InvalidManagerConfigError(`No outbox configured for manager "${this.name}"`);
+    }
+    return this.changeTracker.dispatch();
+  }
+
+  /**
+   * Lists the recorded changes of an entity of an audited model.
+   *
+   * @param modelName - The name of the model
+   * @param primaryKey - The primary key of the entity, an object for composite primary keys
+   * @param options - History options
+   *
+   * @returns A promise that resolves to the entries, in chronological order unless specified otherwise
+   *
+   * @throws {InvalidManagerConfigError} If no model of the manager is audited
+   *
+   * @example
+   * ```typescript
+   * const history = await manager.getAuditHistory('users', 42);
+   * history.forEach((e) => console.log(e.createdAt, e.actor, e.operation, e.changes));
+   * ```
+   */
+  async getAuditHistory(modelName: string, primaryKey: unknown, options?: AuditHistoryOptions): Promise<AuditEntry[]> {
+    if (!this.auditTrail) {
+      throw new InvalidManagerConfigError(`No audited model in manager "${this.name}"`);
+    }
+    return this.auditTrail.getHistory(modelName, primaryKey, options);
+  }
+
+  /**
+   * Re-encrypts with the current key the encrypted attributes of the rows encrypted with another key,
+   * and encrypts the values stored before their attribute was encrypted.
+   * Each batch of rows is updated in its own transaction, so the job can be interrupted and run again.
+   *
+   * @param options - Rotation options
+   *
+   * @returns A promise that resolves to the number of updated rows, indexed by model name
+   *
+   * @throws {InvalidManagerConfigError} If encryption is not configured
+   * @throws {ModelNotFoundError} If a model of `options.models` has no encrypted attributes
+   * @throws {EncryptionError} If a value cannot be decrypted with the configured keys
+   *
+   * @example
+   * ```typescript
+   * // after adding a new key and making it the current one
+   * const updated = await manager.rotateEncryptionKeys({ batchSize: 1000 });
+   * ```
+   */
+  async rotateEncryptionKeys(options: RotateEncryptionKeysOptions = {}): Promise<Record<string, number>> {
+    if (!this.encryptor) {
+      throw new InvalidManagerConfigError(`No encryption configured for manager "${this.name}"`);
+    }
+    const encryptor = this.encryptor;
+    const models = encryptor
+      .getModels()
+      .filter((model) => this.isDefined(model.name) && this.model(model.name) === model);
+    options.models?.forEach((name) => {
+      if (!models.some((model) => model.name === name)) {
+        throw new ModelNotFoundError(name, this.name);
       }
     });
+
+    const updated: Record<string, number> = {};
+    for (const model of models) {
+      if (!options.models || options.models.includes(model.name)) {
+        updated[model.name] = await encryptor.rotate(this, model, options.batchSize);
+      }
+    }
+    return updated;
   }
 
   /**
-   * Retrieves the Sequelize connection instance.
+   * Applies all pending migrations.
+   * Applied migrations are stored in a meta table of this connection and a lock
+   * prevents two processes from migrating at the same time.
    *
-   * @returns The Sequelize instance (this manager itself)
+   * @returns A promise that resolves to the names of the applied migrations
+   *
+   * @throws {InvalidManagerConfigError} If no migrations are configured
+   * @throws {MigrationLockError} If the migration lock could not be acquired in time
+   * @throws {MigrationError} If a migration fails
    *
    * @example
    * ```typescript
-   * const sequelize = manager.getConnection();
-   * const [results] = await sequelize.query('SELECT NOW()');
+   * const applied = await manager.migrate();
+   * console.log(`Applied ${applied.length} migration(s)`);
    * ```
    */
-  getConnection(): Sequelize {
-    return this;
+  async migrate(): Promise<string[]> {
+    return this.getMigrator().migrate();
   }
 
   /**
-   * Closes the Sequelize connection.
-   * Terminates all active connections in the pool.
+   * Reverts the last applied migrations.
+   *
+   * @param steps - Number of migrations to revert, defaults to 1
+   *
+   * @returns A promise that resolves to the names of the reverted migrations
    *
-   * @returns A promise that resolves when the connection is closed
+   * @throws {InvalidManagerConfigError} If no migrations are configured
+   * @throws {MigrationLockError} If the migration lock could not be acquired in time
+   * @throws {MigrationError} If `steps` is not a positive integer or a migration cannot be reverted
    *
    * @example
    * ```typescript
-   * await manager.closeConnection();
+   * await manager.rollback(2);
    * ```
    */
-  async closeConnection(): Promise<void> {
-    await this.close();
+  async rollback(steps = 1): Promise<string[]> {
+    return this.getMigrator().rollback(steps);
   }
 
   /**
-   * Fetches a model that has already been defined in this Sequelize instance.
+   * Lists the configured migrations and whether they have been applied.
    *
-   * @template M - The ModelStatic type, defaults to ModelStatic<Model>
+   * @returns A promise that resolves to the status of each migration
    *
-   * @param name - The name of the model to retrieve
+   * @throws {InvalidManagerConfigError} If no migrations are configured
    *
-   * @returns The requested model class
+   * @example
+   * ```typescript
+   * const pending = (await manager.migrationStatus()).filter((m) => !m.applied);
+   * ```
+   */
+  async migrationStatus(): Promise<MigrationStatus[]> {
+    return this.getMigrator().status();
+  }
+
+  /**
+   * Releases the migration lock, e.g. when a process crashed while migrating and
+   * waiting for `staleLockTimeout` is not an option. Make sure no migration is running.
+   *
+   * @returns A promise that resolves to whether a lock was released
+   *
+   * @throws {InvalidManagerConfigError} If no migrations are configured
    *
    * @example
    * ```typescript
-   * const User = manager.getModel('User');
-   * const user = await User.findOne({ where: { email: 'user@example.com' } });
+   * await manager.releaseMigrationLock();
    * ```
    */
-  getModel<M extends ModelStatic<Model> = ModelStatic<Model>>(name: string): M;
+  async releaseMigrationLock(): Promise<boolean> {
+    return this.getMigrator().releaseLock();
+  }
+
   /**
-   * Fetches a model that has already been defined in this Sequelize instance.
+   * Returns the migration runner.
    *
-   * @template M - The Model type, defaults to Model
+   * @throws {InvalidManagerConfigError} If no migrations are configured
+   */
+  protected getMigrator(): Migrator {
+    if (!this.migrator) {
+      throw new InvalidManagerConfigError(`No migrations configured for manager "${this.name}"`);
+    }
+    return this.migrator;
+  }
+
+  /**
+   * Returns a view of the manager scoped to a tenant, whose models are bound to the tenant schema.
+   * On dialects without schemas (SQLite, MySQL), the tenant tables are prefixed with `<schema>.` instead.
+   * The view can be added to a registry to use the package-level `getModel()`.
    *
-   * @param name - The name of the model to retrieve
+   * @param tenantId - The ID of the tenant: letters, digits, "_" and "-"
    *
-   * @returns The requested model class
+   * @returns The tenant view
+   *
+   * @throws {InvalidTenantError} If the tenant ID is invalid
+   *
+   * @example
+   * ```typescript
+   * const Movies = manager.forTenant('acme').getModel('movies');
+   * const movies = await Movies.findAll();
+   *
+   * Storehouse.addManager('acme', manager.forTenant('acme'));
+   * const AcmeMovies = getModel(Storehouse, 'acme', 'movies');
+   * ```
    */
-  getModel<M extends Model = Model>(name: string): ModelStatic<M>;
+  forTenant(tenantId: string): TenantScope {
+    let tenant = this.tenants.get(tenantId);
+    if (!tenant) {
+      tenant = new TenantScope(this, tenantId, this.getTenantSchema(tenantId));
+      this.tenants.set(tenantId, tenant);
+    }
+    return tenant;
+  }
+
   /**
-   * Fetches a model that has already been defined in this Sequelize instance.
+   * Returns the schema name of a tenant.
    *
-   * @template TModelAttributes - The model attributes type
-   * @template TCreationAttributes - The creation attributes type
+   * @param tenantId - The ID of the tenant
    *
-   * @param name - The name of the model to retrieve
+   * @returns The schema name
    *
-   * @returns The requested model class
+   * @throws {InvalidTenantError} If the tenant ID is invalid
    */
-  getModel<
-    TModelAttributes extends Record<string, unknown> = AnyJsonObject,
-    TCreationAttributes extends Record<string, unknown> = AnyJsonObject,
-  >(name: string): ModelStatic<Model<TModelAttributes, TCreationAttributes>>;
-  getModel<M extends ModelStatic<Model> = ModelStatic<Model>>(name: string): M {
-    return this.model(name) as M;
+  getTenantSchema(tenantId: string): string {
+    return getTenantSchema(tenantId, this.tenancySettings);
+  }
+
+  /**
+   * Creates the schema of a tenant, then optionally creates the tables of the registered models
+   * and runs the tenant migrations in it.
+   *
+   * @param tenantId - The ID of the tenant
+   * @param options - Whether to sync the models and run the migrations
+   *
+   * @returns A promise that resolves to the tenant view
+   *
+   * @throws {InvalidTenantError} If the tenant ID is invalid
+   * @throws {InvalidManagerConfigError} If `migrate` is set and no migrations are configured
+   *
+   * @example
+   * ```typescript
+   * await manager.createTenant('acme', { migrate: true });
+   * ```
+   */
+  async createTenant(tenantId: string, options: CreateTenantOptions = {}): Promise<TenantScope> {
+    const tenant = this.forTenant(tenantId);
+    if (this.supportsSchemas()) {
+      await this.getQueryInterface().createSchema(tenant.schema);
+    }
+    if (options.sync) {
+      const existing = this.supportsSchemas() ? undefined : await this.getPrefixedTables(tenant.schema);
+      for (const model of tenant.getModels()) {
+        // without schemas, sync() checks the unprefixed table: missing tenant tables are created with force
+        const table = model.getTableName();
+        const missing = existing && !existing.includes(typeof table === 'string' ? table : table.tableName);
+        await model.sync(missing ? { force: true } : {});
+      }
+    }
+    if (options.migrate) {
+      await this.migrateTenant(tenantId);
+    }
+    return tenant;
+  }
+
+  /**
+   * Applies the pending tenant migrations in the schema of a tenant.
+   * Migrations receive the tenant schema in their context, and the meta and lock tables live in the tenant schema.
+   *
+   * @param tenantId - The ID of the tenant
+   *
+   * @returns A promise that resolves to the names of the applied migrations
+   *
+   * @throws {InvalidTenantError} If the tenant ID is invalid
+   * @throws {InvalidManagerConfigError} If no migrations are configured
+   * @throws {MigrationLockError} If the migration lock of the tenant could not be acquired in time
+   * @throws {MigrationError} If a migration fails
+   *
+   * @example
+   * ```typescript
+   * for (const tenantId of tenantIds) {
+   *   await manager.migrateTenant(tenantId);
+   * }
+   * ```
+   */
+  async migrateTenant(tenantId: string): Promise<string[]> {
+    const schema = this.getTenantSchema(tenantId);
+    const migrator = this.tenancySettings.migrations
+      ? new Migrator(this, this.tenancySettings.migrations, schema)
+      : this.getMigrator().withSchema(schema);
+    return migrator.migrate();
+  }
+
+  /**
+   * Drops the schema of a tenant and everything in it.
+   * On dialects without schemas, the tables prefixed with the tenant schema are dropped.
+   *
+   * @param tenantId - The ID of the tenant
+   *
+   * @returns A promise that resolves when the schema is dropped
+   *
+   * @throws {InvalidTenantError} If the tenant ID is invalid
+   *
+   * @example
+   * ```typescript
+   * await manager.dropTenant('acme');
+   * ```
+   */
+  async dropTenant(tenantId: string): Promise<void> {
+    const tenant = this.forTenant(tenantId);
+    const queryInterface = this.getQueryInterface();
+    if (this.supportsSchemas()) {
+      await queryInterface.dropSchema(tenant.schema);
+    } else {
+      // model tables first, dependents before their references
+      for (const model of tenant.getModels().reverse()) {
+        await model.drop();
+      }
+      for (const tableName of await this.getPrefixedTables(tenant.schema)) {
+        await queryInterface.dropTable({ tableName, schema: tenant.schema });
+      }
+    }
+    this.tenants.delete(tenantId);
+  }
+
+  /**
+   * Lists the tables prefixed with a schema, on dialects without schemas.
+   *
+   * @param schema - The schema
+   *
+   * @returns The table names without prefix
+   */
+  protected async getPrefixedTables(schema: string): Promise<string[]> {
+    const prefix = `${schema}.`;
+    return ((await this.getQueryInterface().showAllTables()) as (string | { tableName: string })[])
+      .map((t) => (typeof t === 'string' ? t : t.tableName))
+      .filter((t) => t.startsWith(prefix))
+      .map((t) => t.slice(prefix.length));
+  }
+
+  /**
+   * Whether the dialect has schemas. Without schemas, tenant tables are prefixed instead.
+   */
+  protected supportsSchemas(): boolean {
+    return (this as unknown as { dialect: { supports: { schemas: boolean } } }).dialect.supports.schemas;
+  }
+
+  /**
+   * Runs the seeders of an environment through the registered models.
+   * Seeders already stored in the seed history table are skipped and data records
+   * are upserted on primary key. Seeders run in the order of the models' foreign keys.
+   *
+   * @param options - Optional environment and force flag
+   *
+   * @returns A promise that resolves to the names of the seeders that ran
+   *
+   * @throws {InvalidManagerConfigError} If no seeders are configured
+   * @throws {SeederError} If a seeder cannot be loaded or fails
+   *
+   * @example
+   * ```typescript
+   * await manager.seed({ environment: 'demo' });
+   * ```
+   */
+  async seed(options?: SeedOptions): Promise<string[]> {
+    if (!this.seederRunner) {
+      throw new InvalidManagerConfigError(`No seeders configured for manager "${this.name}"`);
+    }
+    return this.seederRunner.seed(options);
+  }
+
+  /**
+   * Synchronizes the schema according to the configured sync policy.
+   * Destructive modes ("alter" and "force") are refused unless allowed by
+   * `allowDestructive` or by the current `NODE_ENV` being in `destructiveEnvironments`.
+   *
+   * @param options - Optional mode overriding the configured one, and explicit permission for destructive modes
+   *
+   * @returns A promise that resolves when the schema is synchronized
+   *
+   * @throws {DestructiveSyncError} If the mode is destructive and not allowed
+   *
+   * @example
+   * ```typescript
+   * await manager.syncSchema(); // uses config.sync.mode
+   * await manager.syncSchema({ mode: 'alter', allowDestructive: true });
+   * ```
+   */
+  async syncSchema(options: SyncSchemaOptions = {}): Promise<void> {
+    const mode = options.mode || this.syncSettings.mode || 'none';
+    assertSyncAllowed(mode, this.syncSettings, options.allowDestructive);
+    Log.debug(`[${this.name}]`, `sync mode "${mode}"`);
+    switch (mode) {
+      case 'create-missing':
+        await this.sync();
+        break;
+      case 'alter':
+        await this.sync({ alter: true });
+        break;
+      case 'force':
+        await this.sync({ force: true });
+        break;
+    }
+  }
+
+  /**
+   * Compares the registered models with the database and lists the planned changes
+   * (missing tables, columns and indexes, column type or nullability changes, extra columns and tables)
+   * without applying anything.
+   * Migration and seeder tables of the manager are not reported as extra tables.
+   *
+   * @returns A promise that resolves to the planned schema changes
+   *
+   * @example
+   * ```typescript
+   * const changes = await manager.diffSchema();
+   * changes.forEach((c) => console.log(c.description));
+   * ```
+   */
+  async diffSchema(): Promise<SchemaChange[]> {
+    return diffSchema(this, {
+      ignoreTables: [...(this.migrator?.getTableNames() || []), ...(this.seederRunner?.getTableNames() || [])],
+    });
   }
 
   /**
@@ -498,34 +2525,55 @@ export class SequelizeManager extends Sequelize implements IManager {
 
   /**
    * Performs a comprehensive health check on the Sequelize connection.
-   * Tests connectivity by authenticating with the database and gathering connection information.
+   * Tests connectivity by authenticating with the database (or running the configured probe)
+   * and gathering connection information. The check fails if it exceeds the configured timeout.
+   *
+   * @param options - Optional health check options, merged with the configured `healthCheck` settings
    *
    * @returns A promise that resolves to a detailed health check result including:
    * - Connection status
    * - Database dialect and version
    * - Registered models
    * - Authentication latency
+   * - Connection pool statistics
+   * - Schema drift of the registered models (in deep mode)
    * - Error details (if unhealthy)
    *
    * @example
    * ```typescript
-   * const health = await manager.healthCheck();
-   * if (health.healthy) {
+   * const health = await manager.healthCheck({ deep: true });
+   * if (health.status === 'healthy') {
    *   console.log(`Sequelize is healthy. Latency: ${health.details.latency}`);
    *   console.log(`Database: ${health.details.dialect} v${health.details.databaseVersion}`);
    *   console.log(`Models: ${health.details.models?.join(', ')}`);
+   * } else if (health.status === 'degraded') {
+   *   console.warn(`Sequelize is degraded: ${health.message}`, health.details.drift);
    * } else {
    *   console.error(`Sequelize is unhealthy: ${health.message}`);
    * }
    * ```
    */
-  async healthCheck(): Promise<SequelizeHealthCheckResult> {
+  async healthCheck(options?: SequelizeHealthCheckOptions): Promise<SequelizeHealthCheckResult> {
+    const {
+      deep,
+      timeout,
+      probe,
+      latencyThreshold,
+      databaseVersion: withVersion = true,
+    } = { ...this.healthCheckOptions, ...options };
     const start = Date.now();
     const timestamp = start;
 
     try {
-      // Authenticate the connection
-      await this.authenticate();
+      // Probe the connection
+      // With replication, the probe checks the writer
+      await withTimeout(
+        this.useWriter(() =>
+          typeof probe === 'function' ? probe(this) : probe ? this.query(probe) : this.authenticate()
+        ),
+        timeout,
+        `Health check timed out after ${timeout}ms`
+      );
 
       const latency = Date.now() - start;
 
@@ -533,16 +2581,71 @@ export class SequelizeManager extends Sequelize implements IManager {
       const dialect = this.getDialect();
       const models = Object.keys(this.models);
 
+      // Compare tables, columns and nullability with the models
+      const drift = deep
+        ? await withTimeout(
+            diffSchema(this, { compareTypes: false, compareIndexes: false, models: Object.values(this.models) }),
+            timeout && Math.max(timeout - (Date.now() - start), 1),
+            `Health check timed out after ${timeout}ms`
+          )
+        : undefined;
+
+      // The version is informative: failing to get it does not fail the check
+      let databaseVersion: string | undefined;
+      if (withVersion) {
+        try {
+          databaseVersion = await withTimeout(
+            this.databaseVersion(),
+            timeout && Math.max(timeout - (Date.now() - start), 1),
+            'Database version timed out'
+          );
+        } catch (error) {
+          Log.debug(`[${this.name}]`, 'could not get database version', error);
+        }
+      }
+
+      // Check each read replica, updating the rotation; replicas slower than the remaining time are unhealthy
+      let replication: SequelizeHealthCheckResult['details']['replication'];
+      if (this.replicaRouter) {
+        const writer = this.replicaRouter.getWriter();
+        const replicaTimeout = this.replicationSettings.timeout ?? 5000;
+        replication = {
+          writer: { role: 'write', host: writer?.host, port: writer?.port, healthy: true, latency },
+          replicas: await this.checkReplicas(
+            timeout ? Math.min(replicaTimeout, Math.max(timeout - (Date.now() - start), 1)) : replicaTimeout
+          ),
+        };
+      }
+
+      const warnings: string[] = [];
+      const unhealthyReplicas = replication?.replicas.filter((r) => !r.healthy).length;
+      if (unhealthyReplicas) {
+        warnings.push(`${unhealthyReplicas} read replica(s) are unhealthy`);
+      }
+      if (drift && drift.length) {
+        warnings.push(`${drift.length} schema drift(s) were found`);
+      }
+      if (latencyThreshold && latency > latencyThreshold) {
+        warnings.push(`latency ${latency}ms exceeds ${latencyThreshold}ms`);
+      }
+      const status: SequelizeHealthStatus = warnings.length ? 'degraded' : 'healthy';
+
       return {
         healthy: true,
-        message: 'Sequelize connection is healthy',
+        status,
+        message: warnings.length
+          ? `Sequelize connection is degraded: ${warnings.join(', ')}`
+          : 'Sequelize connection is healthy',
         details: {
           name: this.name,
           dialect,
-          databaseVersion: await this.databaseVersion(),
+          databaseVersion,
           models,
           modelCount: models.length,
           latency: `${latency}ms`,
+          pool: this.getPoolStats(),
+          drift,
+          replication,
         },
         latency,
         timestamp,
@@ -550,10 +2653,12 @@ export class SequelizeManager extends Sequelize implements IManager {
     } catch (error) {
       return {
         healthy: false,
+        status: 'unhealthy',
         message: `Sequelize health check failed: ${error instanceof Error ? error.message : String(error)}`,
         details: {
           name: this.name,
           dialect: this.getDialect(),
+          pool: this.getPoolStats(),
           error: error instanceof Error ? error.stack : String(error),
         },
         latency: Date.now() - start,
@@ -561,4 +2666,106 @@ export class SequelizeManager extends Sequelize implements IManager {
       };
     }
   }
+
+  /**
+   * Returns the query metrics: counts, errors and latency histograms per model and operation,
+   * slow queries with their SQL, and pool statistics.
+   *
+   * @returns A snapshot of the metrics, or undefined if instrumentation is not enabled
+   *
+   * @example
+   * ```typescript
+   * const metrics = manager.getMetrics();
+   * if (metrics) {
+   *   res.type('text/plain; version=0.0.4').send(toPrometheus(metrics));
+   * }
+   * ```
+   */
+  getMetrics(): QueryMetricsSnapshot | undefined {
+    if (!this.metrics) {
+      return undefined;
+    }
+    return {
+      ...this.metrics.snapshot(),
+      pool: this.getPoolStats(),
+    };
+  }
+
+  /**
+   * Clears the query metrics.
+   */
+  resetMetrics(): void {
+    this.metrics?.reset();
+  }
+
+  /**
+   * Returns the hits and misses of the query cache, in total and per model.
+   *
+   * @returns The statistics, or undefined if no model is cached
+   *
+   * @example
+   * ```typescript
+   * const stats = manager.getCacheStats();
+   * console.log(`cache hit rate: ${(stats?.hitRate ?? 0) * 100}%`);
+   * ```
+   */
+  getCacheStats(): CacheStats | undefined {
+    return this.queryCache?.getStats();
+  }
+
+  /**
+   * Clears the hits and misses of the query cache.
+   */
+  resetCacheStats(): void {
+    this.queryCache?.resetStats();
+  }
+
+  /**
+   * Invalidates the cached queries of a model, or of every cached model,
+   * e.g. after changing rows with raw queries.
+   *
+   * @param modelName - The name of the model
+   *
+   * @returns A promise that resolves once the entries are invalidated
+   */
+  async clearCache(modelName?: string): Promise<void> {
+    const names = modelName ? [modelName] : this.queryCache?.getModelNames() || [];
+    for (const name of names) {
+      await this.queryCache?.invalidate(name);
+    }
+  }
+
+  /**
+   * Returns statistics of the connection pool.
+   * When replication is used, the top-level values are the sums of the `read` and `write` pools.
+   *
+   * @returns The pool statistics, or undefined if the dialect does not expose a pool
+   *
+   * @example
+   * ```typescript
+   * const stats = manager.getPoolStats();
+   * console.log(`${stats?.inUse} connection(s) in use, ${stats?.waiting} waiting`);
+   * ```
+   */
+  getPoolStats(): (SequelizePoolStats & { read?: SequelizePoolStats; write?: SequelizePoolStats }) | undefined {
+    const pool = (this.connectionManager as unknown as { pool?: PoolLike | { read: PoolLike; write: PoolLike } }).pool;
+    if (!pool) {
+      return undefined;
+    }
+    if ('read' in pool && 'write' in pool) {
+      const read = toPoolStats(pool.read);
+      const write = toPoolStats(pool.write);
+      return {
+        size: read.size + write.size,
+        available: read.available + write.available,
+        inUse: read.inUse + write.inUse,
+        waiting: read.waiting + write.waiting,
+        max: read.max + write.max,
+        min: read.min + write.min,
+        read,
+        write,
+      };
+    }
+    return toPoolStats(pool as PoolLike);
+  }
 }
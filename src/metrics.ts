@@ -0,0 +1,321 @@
+import { QueryContext } from './context';
+
+/**
+ * Statistics of a connection pool.
+ */
+export interface SequelizePoolStats {
+  /** Number of open connections */
+  size: number;
+  /** Number of idle connections */
+  available: number;
+  /** Number of connections in use */
+  inUse: number;
+  /** Number of requests waiting for a connection */
+  waiting: number;
+  /** Maximum number of connections */
+  max: number;
+  /** Minimum number of connections */
+  min: number;
+}
+
+/**
+ * Query instrumentation settings of a SequelizeManager.
+ *
+ * @example
+ * ```typescript
+ * const instrumentation: InstrumentationSettings = {
+ *   enabled: true,
+ *   slowQueryThreshold: 500
+ * };
+ * ```
+ */
+export interface InstrumentationSettings {
+  /** Records query metrics. Defaults to false. */
+  enabled?: boolean;
+  /** Duration in milliseconds above which a query is recorded as slow. Defaults to 1000. */
+  slowQueryThreshold?: number;
+  /** Maximum number of slow queries kept, the oldest are dropped first. Defaults to 100. */
+  slowQueryLimit?: number;
+  /** Upper bounds of the latency histogram buckets, in seconds */
+  buckets?: number[];
+}
+
+/**
+ * A query as recorded by {@link QueryMetrics}.
+ */
+export interface QueryRecord {
+  /** The name of the model the query was run for, if any */
+  model?: string;
+  /** The operation type, e.g. "select", "insert", "update", "raw" */
+  operation: string;
+  /** Duration in milliseconds */
+  duration: number;
+  /** Whether the query failed */
+  error?: boolean;
+  /** The SQL of the query */
+  sql: string;
+  /** The context the query was run in */
+  context?: QueryContext;
+}
+
+/**
+ * A query slower than the configured threshold.
+ */
+export interface SlowQuery {
+  /** The name of the model the query was run for, if any */
+  model?: string;
+  /** The operation type */
+  operation: string;
+  /** Duration in milliseconds */
+  duration: number;
+  /** The SQL of the query */
+  sql: string;
+  /** When the query finished */
+  timestamp: number;
+  /** The context the query was run in */
+  context?: QueryContext;
+}
+
+/**
+ * Metrics of the queries of one model and operation.
+ */
+export interface QueryMetricsEntry {
+  /** The name of the model, empty for queries without model */
+  model: string;
+  /** The operation type */
+  operation: string;
+  /** Number of queries */
+  count: number;
+  /** Number of failed queries */
+  errors: number;
+  /** Total duration in seconds */
+  sum: number;
+  /** Cumulative number of queries per bucket upper bound (in seconds), matching `buckets` */
+  buckets: number[];
+}
+
+/**
+ * Snapshot of the query metrics of a manager.
+ */
+export interface QueryMetricsSnapshot {
+  /** The name of the manager */
+  manager: string;
+  /** Upper bounds of the latency histogram buckets, in seconds */
+  buckets: number[];
+  /** Metrics per model and operation */
+  queries: QueryMetricsEntry[];
+  /** Number of slow queries recorded since the start */
+  slowQueryCount: number;
+  /** The last slow queries */
+  slowQueries: SlowQuery[];
+  /** Connection pool statistics */
+  pool?: SequelizePoolStats;
+}
+
+/**
+ * Options of {@link toPrometheus}.
+ */
+export interface PrometheusOptions {
+  /** Prefix of the metric names. Defaults to "storehouse_sequelize". */
+  prefix?: string;
+  /** Labels added to every metric */
+  labels?: Record<string, string>;
+}
+
+/**
+ * Default latency histogram buckets, in seconds.
+ */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Collects query counts, latency histograms, error counts and slow queries.
+ *
+ * @remarks
+ * Usually used through {@link SequelizeManager.getMetrics}.
+ */
+export class QueryMetrics {
+  protected manager: string;
+  protected settings: InstrumentationSettings;
+  protected buckets: number[];
+  protected entries = new Map<string, QueryMetricsEntry>();
+  protected slowQueries: SlowQuery[] = [];
+  protected slowQueryCount = 0;
+
+  /**
+   * @param manager - The name of the manager
+   * @param settings - The instrumentation settings
+   */
+  constructor(manager: string, settings: InstrumentationSettings) {
+    this.manager = manager;
+    this.settings = settings;
+    this.buckets = (settings.buckets || DEFAULT_BUCKETS).slice().sort((a, b) => a - b);
+  }
+
+  /**
+   * Records a query.
+   *
+   * @param record - The query
+   */
+  record(record: QueryRecord): void {
+    const model = record.model || '';
+    const key = `${model}\u0000${record.operation}`;
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = { model, operation: record.operation, count: 0, errors: 0, sum: 0, buckets: this.buckets.map(() => 0) };
+      this.entries.set(key, entry);
+    }
+    const seconds = record.duration / 1000;
+    entry.count++;
+    entry.sum += seconds;
+    if (record.error) {
+      entry.errors++;
+    }
+    this.buckets.forEach((le, i) => {
+      if (seconds <= le) {
+        entry.buckets[i]++;
+      }
+    });
+
+    if (record.duration >= (this.settings.slowQueryThreshold ?? 1000)) {
+      this.slowQueryCount++;
+      this.slowQueries.push({
+        model: record.model,
+        operation: record.operation,
+        duration: record.duration,
+        sql: record.sql,
+        timestamp: Date.now(),
+        context: record.context,
+      });
+      const limit = this.settings.slowQueryLimit ?? 100;
+      if (this.slowQueries.length > limit) {
+        this.slowQueries.splice(0, this.slowQueries.length - limit);
+      }
+    }
+  }
+
+  /**
+   * Returns a copy of the current metrics.
+   */
+  snapshot(): QueryMetricsSnapshot {
+    return {
+      manager: this.manager,
+      buckets: this.buckets.slice(),
+      queries: Array.from(this.entries.values()).map((e) => ({ ...e, buckets: e.buckets.slice() })),
+      slowQueryCount: this.slowQueryCount,
+      slowQueries: this.slowQueries.slice(),
+    };
+  }
+
+  /**
+   * Clears all metrics.
+   */
+  reset(): void {
+    this.entries.clear();
+    this.slowQueries = [];
+    this.slowQueryCount = 0;
+  }
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const parts = Object.keys(labels).map((k) => `${k}="${escapeLabel(labels[k])}"`);
+  return parts.length ? `{${parts.join(',')}}` : '';
+}
+
+/**
+ * Serializes query metrics to the Prometheus text exposition format.
+ *
+ * @param snapshots - The metrics of one or several managers
+ * @param options - Metric name prefix and additional labels
+ *
+ * @returns The metrics in Prometheus text format
+ *
+ * @example
+ * ```typescript
+ * app.get('/metrics', (req, res) => {
+ *   res.type('text/plain; version=0.0.4').send(toPrometheus(manager.getMetrics()));
+ * });
+ * ```
+ */
+export function toPrometheus(
+  snapshots: QueryMetricsSnapshot | QueryMetricsSnapshot[],
+  options: PrometheusOptions = {}
+): string {
+  const list = Array.isArray(snapshots) ? snapshots : [snapshots];
+  const prefix = options.prefix || 'storehouse_sequelize';
+  const lines: string[] = [];
+
+  const metric = (name: string, type: string, help: string, samples: string[]) => {
+    lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} ${type}`, ...samples);
+  };
+
+  const queryLabels = (s: QueryMetricsSnapshot, e: QueryMetricsEntry) => ({
+    ...options.labels,
+    manager: s.manager,
+    model: e.model,
+    operation: e.operation,
+  });
+
+  metric(
+    'queries_total',
+    'counter',
+    'Total number of queries.',
+    list.flatMap((s) => s.queries.map((e) => `${prefix}_queries_total${formatLabels(queryLabels(s, e))} ${e.count}`))
+  );
+  metric(
+    'query_errors_total',
+    'counter',
+    'Total number of failed queries.',
+    list.flatMap((s) =>
+      s.queries.map((e) => `${prefix}_query_errors_total${formatLabels(queryLabels(s, e))} ${e.errors}`)
+    )
+  );
+  metric(
+    'query_duration_seconds',
+    'histogram',
+    'Query duration in seconds.',
+    list.flatMap((s) =>
+      s.queries.flatMap((e) => {
+        const labels = queryLabels(s, e);
+        return [
+          ...s.buckets.map(
+            (le, i) =>
+              `${prefix}_query_duration_seconds_bucket${formatLabels({ ...labels, le: String(le) })} ${e.buckets[i]}`
+          ),
+          `${prefix}_query_duration_seconds_bucket${formatLabels({ ...labels, le: '+Inf' })} ${e.count}`,
+          `${prefix}_query_duration_seconds_sum${formatLabels(labels)} ${e.sum}`,
+          `${prefix}_query_duration_seconds_count${formatLabels(labels)} ${e.count}`,
+        ];
+      })
+    )
+  );
+  metric(
+    'slow_queries_total',
+    'counter',
+    'Total number of slow queries.',
+    list.map(
+      (s) =>
+        `${prefix}_slow_queries_total${formatLabels({ ...options.labels, manager: s.manager })} ${s.slowQueryCount}`
+    )
+  );
+
+  const pools = list.filter(
+    (s): s is QueryMetricsSnapshot & { pool: NonNullable<QueryMetricsSnapshot['pool']> } => !!s.pool
+  );
+  if (pools.length) {
+    (['size', 'available', 'inUse', 'waiting'] as const).forEach((key) => {
+      const name = `pool_${key === 'inUse' ? 'in_use' : key}_connections`;
+      metric(
+        name,
+        'gauge',
+        `Connection pool ${key === 'inUse' ? 'in use' : key} connections.`,
+        pools.map((s) => `${prefix}_${name}${formatLabels({ ...options.labels, manager: s.manager })} ${s.pool[key]}`)
+      );
+    });
+  }
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,421 @@
+import { sleep } from './retry';
+import Logger from '@novice1/logger';
+import { StorehouseError } from '@storehouse/core';
+import { readdirSync } from 'node:fs';
+import { basename, extname, join, resolve } from 'node:path';
+import { DataTypes, QueryInterface, Sequelize, TableName, Transaction, UniqueConstraintError } from 'sequelize';
+
+const Log = Logger.debugger('@storehouse/sequelize:migrations');
+
+/**
+ * Context passed to the `up` and `down` functions of a migration.
+ */
+export interface MigrationContext {
+  /** The Sequelize instance of the manager */
+  sequelize: Sequelize;
+  /** The query interface of the manager's connection */
+  queryInterface: QueryInterface;
+  /** The tenant schema the migration runs in, see {@link SequelizeManager.migrateTenant} */
+  schema?: string;
+  /**
+   * The transaction the migration and its meta row are stored in, on dialects with transactional DDL
+   * (postgres, sqlite). Queries are only part of it if they are given this transaction.
+   */
+  transaction?: Transaction;
+}
+
+/**
+ * A single migration.
+ *
+ * @example
+ * ```typescript
+ * const migration: Migration = {
+ *   name: '20260101-create-movies',
+ *   async up({ queryInterface, transaction }) {
+ *     await queryInterface.createTable('movies', {
+ *       id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+ *       title: { type: DataTypes.STRING, allowNull: false }
+ *     }, { transaction });
+ *   },
+ *   async down({ queryInterface, transaction }) {
+ *     await queryInterface.dropTable('movies', { transaction });
+ *   }
+ * };
+ * ```
+ */
+export interface Migration {
+  /** Unique name of the migration, stored in the meta table once applied */
+  name: string;
+  /** Applies the migration */
+  up: (context: MigrationContext) => Promise<unknown> | unknown;
+  /** Reverts the migration. Required to roll it back. */
+  down?: (context: MigrationContext) => Promise<unknown> | unknown;
+}
+
+/**
+ * Migration settings of a SequelizeManager.
+ *
+ * @example
+ * ```typescript
+ * const migrations: MigrationsSettings = {
+ *   source: './migrations',
+ *   tableName: 'app_migrations'
+ * };
+ * ```
+ */
+export interface MigrationsSettings {
+  /**
+   * Directory containing one module per migration, or an array of migrations.
+   * Modules of a directory are sorted by file name and must export `up` and optionally `down`
+   * (as named exports or through a default export). The migration name is the file name without extension.
+   */
+  source: string | Migration[];
+  /** Name of the meta table storing applied migrations. Defaults to "storehouse_migrations". */
+  tableName?: string;
+  /** Maximum time in milliseconds to wait for the migration lock. Defaults to 30000. */
+  lockTimeout?: number;
+  /** Delay in milliseconds between two attempts to take the migration lock. Defaults to 500. */
+  lockRetryInterval?: number;
+  /**
+   * Age in milliseconds after which a lock is considered left by a crashed process and is taken over.
+   * Must exceed the duration of the longest migration. Defaults to 3600000 (1 hour).
+   */
+  staleLockTimeout?: number;
+}
+
+/**
+ * Status of a migration.
+ */
+export interface MigrationStatus {
+  /** The migration name */
+  name: string;
+  /** Whether the migration has been applied */
+  applied: boolean;
+  /** When the migration was applied */
+  appliedAt?: Date;
+  /** True if the migration is stored in the meta table but cannot be found in the source */
+  missing?: boolean;
+}
+
+/**
+ * Thrown when a migration cannot be loaded, applied or reverted.
+ */
+export class MigrationError extends StorehouseError {
+  /**
+   * @param message - Description of the failure
+   * @param cause - The underlying error
+   */
+  constructor(
+    message: string,
+    readonly cause?: unknown
+  ) {
+    super(`Migration failed: ${message}`);
+  }
+}
+
+/**
+ * Thrown when the migration lock could not be acquired in time.
+ */
+export class MigrationLockError extends StorehouseError {
+  /**
+   * @param lockTableName - Name of the lock table
+   * @param timeout - Time waited in milliseconds
+   */
+  constructor(lockTableName: string, timeout: number) {
+    super(`Could not acquire migration lock "${lockTableName}" within ${timeout}ms`);
+  }
+}
+
+interface AppliedMigration {
+  name: string;
+  appliedAt: Date;
+}
+
+const MIGRATION_EXTENSIONS = ['.js', '.cjs', '.ts'];
+
+// dialects rolling back schema changes with the transaction they are made in
+const TRANSACTIONAL_DDL_DIALECTS = ['postgres', 'sqlite'];
+
+/**
+ * Runs migrations on a Sequelize connection.
+ * Applied migrations are stored in a meta table and a lock table prevents concurrent runs.
+ *
+ * @remarks
+ * On dialects with transactional DDL (postgres, sqlite), each migration and its meta row are stored
+ * in one transaction, passed to the migration. On the others, a crash between a migration and its meta row
+ * leaves it applied but not recorded, and it runs again on the next migration.
+ *
+ * Usually used through {@link SequelizeManager.migrate}, {@link SequelizeManager.rollback}
+ * and {@link SequelizeManager.migrationStatus}.
+ */
+export class Migrator {
+  protected sequelize: Sequelize;
+  protected settings: MigrationsSettings;
+  protected tableName: string;
+  protected lockTableName: string;
+  protected schema?: string;
+
+  /**
+   * @param sequelize - The connection to run migrations on
+   * @param settings - The migration settings
+   * @param schema - The schema of the meta and lock tables, passed to the migrations
+   */
+  constructor(sequelize: Sequelize, settings: MigrationsSettings, schema?: string) {
+    this.sequelize = sequelize;
+    this.settings = settings;
+    this.tableName = settings.tableName || 'storehouse_migrations';
+    this.lockTableName = `${this.tableName}_lock`;
+    this.schema = schema;
+  }
+
+  /**
+   * Applies all pending migrations.
+   *
+   * @returns The names of the applied migrations
+   *
+   * @throws {MigrationLockError} If another process holds the migration lock
+   * @throws {MigrationError} If a migration fails
+   */
+  async migrate(): Promise<string[]> {
+    return this.withLock(async () => {
+      const migrations = await this.loadMigrations();
+      const applied = new Set((await this.getApplied()).map((m) => m.name));
+      const done: string[] = [];
+      for (const migration of migrations) {
+        if (applied.has(migration.name)) {
+          continue;
+        }
+        Log.debug(`applying "${migration.name}"`);
+        await this.inTransaction(async (transaction) => {
+          try {
+            await migration.up(this.getContext(transaction));
+          } catch (error) {
+            throw new MigrationError(`"${migration.name}" could not be applied`, error);
+          }
+          await this.getQueryInterface().bulkInsert(
+            this.getTable(this.tableName),
+            [{ name: migration.name, appliedAt: new Date() }],
+            { transaction }
+          );
+        });
+        done.push(migration.name);
+      }
+      return done;
+    });
+  }
+
+  /**
+   * Reverts the last applied migrations.
+   *
+   * @param steps - Number of migrations to revert, defaults to 1
+   *
+   * @returns The names of the reverted migrations
+   *
+   * @throws {MigrationLockError} If another process holds the migration lock
+   * @throws {MigrationError} If `steps` is not a positive integer, or a migration cannot be found,
+   * has no `down` function or fails
+   */
+  async rollback(steps = 1): Promise<string[]> {
+    if (!Number.isInteger(steps) || steps < 1) {
+      throw new MigrationError(`steps must be a positive integer, found ${steps}`);
+    }
+    return this.withLock(async () => {
+      const migrations = new Map((await this.loadMigrations()).map((m) => [m.name, m]));
+      const toRevert = (await this.getApplied()).reverse().slice(0, steps);
+      const done: string[] = [];
+      for (const { name } of toRevert) {
+        const migration = migrations.get(name);
+        if (!migration) {
+          throw new MigrationError(`"${name}" is applied but cannot be found in the source`);
+        }
+        if (!migration.down) {
+          throw new MigrationError(`"${name}" has no "down" function`);
+        }
+        Log.debug(`reverting "${name}"`);
+        const down = migration.down;
+        await this.inTransaction(async (transaction) => {
+          try {
+            await down(this.getContext(transaction));
+          } catch (error) {
+            throw new MigrationError(`"${name}" could not be reverted`, error);
+          }
+          await this.getQueryInterface().bulkDelete(this.getTable(this.tableName), { name }, { transaction });
+        });
+        done.push(name);
+      }
+      return done;
+    });
+  }
+
+  /**
+   * Lists all known migrations with their status.
+   * Migrations from the source come first, in order, followed by applied migrations missing from the source.
+   *
+   * @returns The status of each migration
+   */
+  async status(): Promise<MigrationStatus[]> {
+    await this.ensureTables();
+    const migrations = await this.loadMigrations();
+    const applied = new Map((await this.getApplied()).map((m) => [m.name, m.appliedAt]));
+    const result: MigrationStatus[] = migrations.map(({ name }) => ({
+      name,
+      applied: applied.has(name),
+      appliedAt: applied.get(name),
+    }));
+    applied.forEach((appliedAt, name) => {
+      if (!migrations.some((m) => m.name === name)) {
+        result.push({ name, applied: true, appliedAt, missing: true });
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Releases the migration lock, whoever holds it, e.g. after a process crashed while migrating.
+   *
+   * @returns Whether a lock was released
+   */
+  async releaseLock(): Promise<boolean> {
+    await this.ensureTables();
+    const released = !!(await this.getLock());
+    await this.getQueryInterface().bulkDelete(this.getTable(this.lockTableName), { id: 1 });
+    return released;
+  }
+
+  /**
+   * Returns a migrator running the same migrations in another schema.
+   *
+   * @param schema - The schema of the meta and lock tables, passed to the migrations
+   */
+  withSchema(schema: string): Migrator {
+    return new Migrator(this.sequelize, this.settings, schema);
+  }
+
+  /**
+   * Returns the names of the meta and lock tables.
+   */
+  getTableNames(): string[] {
+    return [this.tableName, this.lockTableName];
+  }
+
+  protected getQueryInterface(): QueryInterface {
+    return this.sequelize.getQueryInterface();
+  }
+
+  protected getContext(transaction?: Transaction): MigrationContext {
+    return {
+      sequelize: this.sequelize,
+      queryInterface: this.getQueryInterface(),
+      schema: this.schema,
+      transaction,
+    };
+  }
+
+  // a migration and its meta row are stored together where the dialect can roll back schema changes
+  protected async inTransaction(callback: (transaction?: Transaction) => Promise<void>): Promise<void> {
+    if (!TRANSACTIONAL_DDL_DIALECTS.includes(this.sequelize.getDialect())) {
+      return callback();
+    }
+    await this.sequelize.transaction((transaction) => callback(transaction));
+  }
+
+  protected getTable(tableName: string): TableName {
+    return this.schema ? { tableName, schema: this.schema } : tableName;
+  }
+
+  protected async loadMigrations(): Promise<Migration[]> {
+    const { source } = this.settings;
+    let migrations: Migration[];
+    if (Array.isArray(source)) {
+      migrations = source;
+    } else {
+      const dir = resolve(source);
+      const files = readdirSync(dir)
+        .filter((f) => MIGRATION_EXTENSIONS.includes(extname(f)) && !f.endsWith('.d.ts'))
+        .sort();
+      migrations = [];
+      for (const file of files) {
+        const mod = await import(join(dir, file));
+        const def = mod.up ? mod : mod.default;
+        if (typeof def?.up !== 'function') {
+          throw new MigrationError(`"${file}" does not export an "up" function`);
+        }
+        migrations.push({ name: basename(file, extname(file)), up: def.up, down: def.down });
+      }
+    }
+    const names = new Set<string>();
+    migrations.forEach(({ name }) => {
+      if (names.has(name)) {
+        throw new MigrationError(`duplicate migration name "${name}"`);
+      }
+      names.add(name);
+    });
+    return migrations;
+  }
+
+  protected async ensureTables(): Promise<void> {
+    const queryInterface = this.getQueryInterface();
+    await queryInterface.createTable(this.getTable(this.tableName), {
+      id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+      name: { type: DataTypes.STRING, allowNull: false, unique: true },
+      appliedAt: { type: DataTypes.DATE, allowNull: false },
+    });
+    await queryInterface.createTable(this.getTable(this.lockTableName), {
+      id: { type: DataTypes.INTEGER, primaryKey: true, allowNull: false },
+      owner: { type: DataTypes.STRING, allowNull: false },
+      lockedAt: { type: DataTypes.DATE, allowNull: false },
+    });
+  }
+
+  protected async getApplied(): Promise<AppliedMigration[]> {
+    const rows = (await this.getQueryInterface().select(null, this.getTable(this.tableName), { raw: true })) as {
+      id: number;
+      name: string;
+      appliedAt: Date | string;
+    }[];
+    // rows are sorted by insertion order as timestamps may not be precise enough
+    return rows.sort((a, b) => a.id - b.id).map((r) => ({ name: r.name, appliedAt: new Date(r.appliedAt) }));
+  }
+
+  protected async getLock(): Promise<{ owner: string; lockedAt: Date } | undefined> {
+    const [row] = (await this.getQueryInterface().select(null, this.getTable(this.lockTableName), {
+      where: { id: 1 },
+      raw: true,
+    })) as { owner: string; lockedAt: Date | string }[];
+    return row && { owner: row.owner, lockedAt: new Date(row.lockedAt) };
+  }
+
+  protected async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    await this.ensureTables();
+    const queryInterface = this.getQueryInterface();
+    const owner = `${process.pid}-${Date.now()}-${Math.ceil(Math.random() * 10000)}`;
+    const timeout = this.settings.lockTimeout ?? 30000;
+    const deadline = Date.now() + timeout;
+    for (;;) {
+      try {
+        await queryInterface.bulkInsert(this.getTable(this.lockTableName), [{ id: 1, owner, lockedAt: new Date() }]);
+        break;
+      } catch (error) {
+        if (!(error instanceof UniqueConstraintError)) {
+          throw error;
+        }
+        const lock = await this.getLock();
+        if (lock && Date.now() - lock.lockedAt.getTime() > (this.settings.staleLockTimeout ?? 3600000)) {
+          Log.debug(`taking over the stale lock of "${lock.owner}" from ${lock.lockedAt.toISOString()}`);
+          // only the stale owner's lock is removed, a single process takes it over
+          await queryInterface.bulkDelete(this.getTable(this.lockTableName), { id: 1, owner: lock.owner });
+          continue;
+        }
+        if (Date.now() >= deadline) {
+          throw new MigrationLockError(this.lockTableName, timeout);
+        }
+        await sleep(this.settings.lockRetryInterval ?? 500);
+      }
+    }
+    try {
+      return await fn();
+    } finally {
+      await queryInterface.bulkDelete(this.getTable(this.lockTableName), { id: 1, owner });
+    }
+  }
+}
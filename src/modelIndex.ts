@@ -0,0 +1,233 @@
+import type { SequelizeManager } from './index';
+import Logger from '@novice1/logger';
+import { IManager, Registry, StorehouseError } from '@storehouse/core';
+import { Model, ModelStatic, Sequelize } from 'sequelize';
+
+const Log = Logger.debugger('@storehouse/sequelize:models');
+
+/**
+ * A model of the registry with its owning manager.
+ */
+export interface ModelIndexEntry {
+  /** Name of the manager owning the model */
+  manager: string;
+  /** Name of the model */
+  model: string;
+  /** Qualified name of the model, "<manager>.<model>" */
+  qualifiedName: string;
+  /** Dialect of the manager */
+  dialect: string;
+  /** Table of the model */
+  table: string;
+  /** Schema of the table, if any */
+  schema?: string;
+  /** The model class */
+  modelClass: ModelStatic<Model>;
+}
+
+/**
+ * Settings of a {@link ModelIndex}.
+ */
+export interface ModelIndexSettings {
+  /**
+   * Behavior of an unqualified lookup matching models of several managers:
+   * - `warn`: logs a warning and returns the model of the default manager if it has one, otherwise of the first manager
+   * - `error`: throws an {@link AmbiguousModelError}
+   *
+   * Defaults to `warn`.
+   */
+  ambiguity?: 'warn' | 'error';
+}
+
+/**
+ * Thrown when an unqualified model name matches models of several managers and ambiguity is an error.
+ */
+export class AmbiguousModelError extends StorehouseError {
+  /**
+   * @param modelName - The unqualified model name
+   * @param managers - Names of the managers defining the model
+   */
+  constructor(modelName: string, managers: string[]) {
+    super(
+      `Model "${modelName}" is defined in managers ${managers.map((m) => `"${m}"`).join(', ')}, use a qualified name such as "${managers[0]}.${modelName}"`
+    );
+  }
+}
+
+/**
+ * Registry-wide index of the models of the Sequelize managers, looked up by qualified ("<manager>.<model>")
+ * or unqualified name.
+ *
+ * @remarks
+ * Usually obtained through {@link getModelIndex}. The index is rebuilt when managers are added to or removed
+ * from the registry and when models are registered or removed through the managers.
+ * Call {@link ModelIndex.refresh} after defining models by other means.
+ *
+ * @example
+ * ```typescript
+ * const index = getModelIndex(Storehouse, { ambiguity: 'error' });
+ * const Users = index.getModel('primary.users');
+ * ```
+ */
+export class ModelIndex {
+  protected registry: Registry;
+  protected settings: ModelIndexSettings;
+  protected entries?: ModelIndexEntry[];
+  protected watched = new WeakSet<IManager>();
+
+  /**
+   * @param registry - The registry to index
+   * @param settings - The index settings
+   */
+  constructor(registry: Registry, settings: ModelIndexSettings = {}) {
+    this.registry = registry;
+    this.settings = settings;
+    const refresh = () => this.refresh();
+    registry.on('manager:added', refresh);
+    registry.on('manager:removed', refresh);
+  }
+
+  /**
+   * Updates the settings of the index.
+   *
+   * @param settings - The settings to merge
+   */
+  configure(settings: ModelIndexSettings): void {
+    this.settings = { ...this.settings, ...settings };
+  }
+
+  /**
+   * Marks the index as outdated, it is rebuilt on the next lookup.
+   */
+  refresh(): void {
+    this.entries = undefined;
+  }
+
+  /**
+   * Lists the models of every Sequelize manager of the registry, in registration order.
+   */
+  list(): ModelIndexEntry[] {
+    if (!this.entries) {
+      this.entries = this.build();
+    }
+    return this.entries.slice();
+  }
+
+  /**
+   * Finds the entry of a model by qualified or unqualified name.
+   *
+   * @param name - "<manager>.<model>" or "<model>"
+   *
+   * @returns The entry, or undefined if no Sequelize manager defines the model
+   *
+   * @throws {AmbiguousModelError} If an unqualified name matches models of several managers and ambiguity is an error
+   */
+  find(name: string): ModelIndexEntry | undefined {
+    const entries = this.list();
+    const qualified = entries.find((e) => e.qualifiedName === name);
+    if (qualified) {
+      return qualified;
+    }
+
+    const matches = entries.filter((e) => e.model === name);
+    if (matches.length > 1) {
+      const managers = matches.map((e) => e.manager);
+      if (this.settings.ambiguity === 'error') {
+        throw new AmbiguousModelError(name, managers);
+      }
+      const entry = matches.find((e) => e.manager === this.registry.defaultManager) || matches[0];
+      Logger.warn(
+        `[@storehouse/sequelize] model "${name}" is defined in managers ${managers.join(', ')}, using "${entry.qualifiedName}"`
+      );
+      return entry;
+    }
+    return matches[0];
+  }
+
+  /**
+   * Fetches a model by qualified or unqualified name.
+   *
+   * @param name - "<manager>.<model>" or "<model>"
+   *
+   * @returns The model class, or undefined if no Sequelize manager defines the model
+   *
+   * @throws {AmbiguousModelError} If an unqualified name matches models of several managers and ambiguity is an error
+   */
+  getModel<M extends ModelStatic<Model> = ModelStatic<Model>>(name: string): M | undefined {
+    const entry = this.find(name);
+    this.registry.emit('model:accessed', { manager: entry?.manager, model: entry?.model ?? name, found: !!entry });
+    return entry?.modelClass as M | undefined;
+  }
+
+  protected build(): ModelIndexEntry[] {
+    const entries: ModelIndexEntry[] = [];
+    this.registry.managerNames.forEach((managerName) => {
+      const manager = this.registry.getManager(managerName);
+      if (!(manager instanceof Sequelize)) {
+        return;
+      }
+      this.watch(manager as unknown as SequelizeManager);
+      Object.values(manager.models).forEach((model) => {
+        const table = model.getTableName();
+        entries.push({
+          manager: managerName,
+          model: model.name,
+          qualifiedName: `${managerName}.${model.name}`,
+          dialect: manager.getDialect(),
+          table: typeof table === 'string' ? table : table.tableName,
+          schema: typeof table === 'string' ? undefined : table.schema || undefined,
+          modelClass: model,
+        });
+      });
+    });
+    Log.debug(`indexed ${entries.length} model(s)`);
+    return entries;
+  }
+
+  protected watch(manager: SequelizeManager): void {
+    if (this.watched.has(manager) || typeof manager.on !== 'function') {
+      return;
+    }
+    this.watched.add(manager);
+    const refresh = () => this.refresh();
+    manager.on('modelRegistered', refresh);
+    manager.on('modelRemoved', refresh);
+  }
+}
+
+const indexes = new WeakMap<Registry, ModelIndex>();
+
+/**
+ * Returns the model index of a registry, created on first use.
+ *
+ * @param registry - The Storehouse registry
+ * @param settings - Settings merged into the index settings
+ *
+ * @returns The model index of the registry
+ */
+export function getModelIndex(registry: Registry, settings?: ModelIndexSettings): ModelIndex {
+  let index = indexes.get(registry);
+  if (!index) {
+    index = new ModelIndex(registry, settings);
+    indexes.set(registry, index);
+  } else if (settings) {
+    index.configure(settings);
+  }
+  return index;
+}
+
+/**
+ * Lists the models of every Sequelize manager of a registry with their manager, dialect and table.
+ *
+ * @param registry - The Storehouse registry
+ *
+ * @returns The models, in registration order
+ *
+ * @example
+ * ```typescript
+ * listModels(Storehouse).forEach((m) => console.log(`${m.qualifiedName} (${m.dialect}) -> ${m.table}`));
+ * ```
+ */
+export function listModels(registry: Registry): ModelIndexEntry[] {
+  return getModelIndex(registry).list();
+}
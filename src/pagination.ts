@@ -0,0 +1,311 @@
+import { StorehouseError } from '@storehouse/core';
+import { Attributes, FindOptions, Model, ModelStatic, Op, WhereOptions } from 'sequelize';
+
+/**
+ * Sort keys of a keyset: attribute names, ascending, or `[attribute, direction]` pairs.
+ *
+ * @example
+ * ```typescript
+ * const order: KeysetOrder = [['publishedAt', 'DESC'], 'title'];
+ * ```
+ */
+export type KeysetOrder = (string | [string, 'ASC' | 'DESC'])[];
+
+/**
+ * Options of {@link iterateBatches}. The other find options, e.g. `where`, `include` or `transaction`,
+ * apply to every batch.
+ */
+export interface IterateBatchesOptions<M extends Model = Model> extends Omit<
+  FindOptions<Attributes<M>>,
+  'order' | 'limit' | 'offset'
+> {
+  /** Maximum number of rows per batch. Defaults to 500. */
+  batchSize?: number;
+  /** Sort keys, completed by the primary key. Defaults to the primary key. */
+  order?: KeysetOrder;
+}
+
+/**
+ * Options of {@link paginate}. The other find options, e.g. `where`, `include` or `transaction`, apply to the page.
+ */
+export interface PaginateOptions<M extends Model = Model> extends Omit<
+  FindOptions<Attributes<M>>,
+  'order' | 'limit' | 'offset'
+> {
+  /** Maximum number of rows of the page. Defaults to 20. */
+  limit?: number;
+  /** Sort keys, completed by the primary key. Defaults to the primary key. */
+  order?: KeysetOrder;
+  /** Returns the rows following this cursor */
+  after?: string | null;
+  /** Returns the rows preceding this cursor */
+  before?: string | null;
+}
+
+/**
+ * A page of rows, as returned by {@link paginate}.
+ */
+export interface Page<M extends Model = Model> {
+  /** The rows, in the requested order */
+  rows: M[];
+  /** Whether rows follow the page */
+  hasNext: boolean;
+  /** Whether rows precede the page */
+  hasPrevious: boolean;
+  /** Cursor of the first row, null for an empty page */
+  startCursor: string | null;
+  /** Cursor of the last row, null for an empty page */
+  endCursor: string | null;
+}
+
+/**
+ * Error thrown when rows cannot be iterated or paginated, e.g. with an invalid cursor.
+ */
+export class PaginationError extends StorehouseError {
+  /**
+   * @param message - The reason
+   */
+  constructor(message: string) {
+    super(`Pagination error: ${message}`);
+  }
+}
+
+interface SortKey {
+  attribute: string;
+  direction: 'ASC' | 'DESC';
+}
+
+// the sort keys followed by the primary key attributes not sorted on, which break ties
+function getSortKeys(model: ModelStatic<Model>, order: KeysetOrder = []): SortKey[] {
+  const attributes = model.getAttributes();
+  const keys: SortKey[] = order.map((item) => {
+    const [attribute, direction = 'ASC'] = Array.isArray(item) ? item : [item];
+    if (!attributes[attribute]) {
+      throw new PaginationError(`"${attribute}" is not an attribute of model "${model.name}"`);
+    }
+    return { attribute, direction: direction.toUpperCase() === 'DESC' ? 'DESC' : 'ASC' };
+  });
+  if (!keys.length && !model.primaryKeyAttributes.length) {
+    throw new PaginationError(`model "${model.name}" has no primary key, an order is required`);
+  }
+  const direction = keys.length ? keys[keys.length - 1].direction : 'ASC';
+  model.primaryKeyAttributes.forEach((attribute) => {
+    if (!keys.some((key) => key.attribute === attribute)) {
+      keys.push({ attribute, direction });
+    }
+  });
+  return keys;
+}
+
+function getSignature(keys: SortKey[]): string[] {
+  return keys.map((key) => `${key.attribute}:${key.direction}`);
+}
+
+function getValues(row: Model, keys: SortKey[]): unknown[] {
+  return keys.map(({ attribute }) => {
+    const value = row instanceof Model ? row.get(attribute) : (row as Record<string, unknown>)[attribute];
+    if (value === null || value === undefined) {
+      throw new PaginationError(`cannot sort on attribute "${attribute}", a row has no value`);
+    }
+    return value;
+  });
+}
+
+function encodeCursor(keys: SortKey[], values: unknown[]): string {
+  const encoded = values.map((value) => (value instanceof Date ? { $date: value.toISOString() } : value));
+  return Buffer.from(JSON.stringify({ k: getSignature(keys), v: encoded })).toString('base64url');
+}
+
+function decodeCursor(keys: SortKey[], cursor: string): unknown[] {
+  let decoded: { k?: unknown; v?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new PaginationError('invalid cursor');
+  }
+  if (
+    !Array.isArray(decoded?.v) ||
+    JSON.stringify(decoded.k) !== JSON.stringify(getSignature(keys)) ||
+    decoded.v.length !== keys.length
+  ) {
+    // a cursor of another order would skip or repeat rows
+    throw new PaginationError('the cursor does not match the order');
+  }
+  // the values end up in the where clause: operators or nested objects of a tampered cursor are rejected
+  return decoded.v.map((value: unknown) => {
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      return value;
+    }
+    const date = getCursorDate(value);
+    if (!date) {
+      throw new PaginationError('invalid cursor');
+    }
+    return date;
+  });
+}
+
+function getCursorDate(value: unknown): Date | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+  const { $date, ...others } = value as { $date?: unknown };
+  if (typeof $date !== 'string' || Object.keys(others).length) {
+    return undefined;
+  }
+  const date = new Date($date);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+// rows strictly following (or preceding) the values in the order of the keys:
+// (k1 > v1) OR (k1 = v1 AND k2 > v2) OR ...
+function getKeysetWhere(keys: SortKey[], values: unknown[], following: boolean): WhereOptions {
+  return {
+    [Op.or]: keys.map((key, i) => {
+      const condition: Record<string, unknown> = {};
+      keys.slice(0, i).forEach((previous, j) => (condition[previous.attribute] = values[j]));
+      condition[key.attribute] = { [(key.direction === 'ASC') === following ? Op.gt : Op.lt]: values[i] };
+      return condition;
+    }),
+  };
+}
+
+function and(where: WhereOptions | undefined, condition: WhereOptions): WhereOptions {
+  return where ? { [Op.and]: [where, condition] } : condition;
+}
+
+function getFindOptions<M extends Model>(
+  options: Omit<FindOptions<Attributes<M>>, 'order' | 'limit' | 'offset'>,
+  keys: SortKey[]
+): FindOptions<Attributes<M>> {
+  const attributes = options.attributes;
+  if (Array.isArray(attributes)) {
+    // the values of the sort keys make the cursors
+    const missing = keys.map((key) => key.attribute).filter((attribute) => !attributes.includes(attribute));
+    return { ...options, attributes: [...attributes, ...missing] };
+  }
+  return { ...options };
+}
+
+/**
+ * Iterates over the rows of a model in batches, each one fetched with a keyset condition
+ * following the last row of the previous batch instead of an offset.
+ *
+ * @template M - The Model type
+ *
+ * @param model - The model
+ * @param options - Iteration options
+ *
+ * @returns An async iterator of the batches, in the order of the sort keys
+ *
+ * @throws {PaginationError} If a sort key is not an attribute of the model or a row has no value for it
+ *
+ * @remarks
+ * The primary key completes the sort keys so that rows with equal sort values are neither skipped nor repeated.
+ * Rows changed during the iteration are seen if they sort after the current batch.
+ *
+ * @example
+ * ```typescript
+ * for await (const batch of iterateBatches(Orders, { where: { status: 'pending' }, batchSize: 1000 })) {
+ *   await process(batch);
+ * }
+ * ```
+ */
+export async function* iterateBatches<M extends Model>(
+  model: ModelStatic<M>,
+  options: IterateBatchesOptions<M> = {}
+): AsyncGenerator<M[], void, undefined> {
+  const { batchSize = 500, order, ...findOptions } = options;
+  if (!(batchSize > 0)) {
+    throw new PaginationError(`batchSize must be greater than 0, found ${batchSize}`);
+  }
+  const keys = getSortKeys(model, order);
+  const query = getFindOptions(findOptions, keys);
+  let values: unknown[] | undefined;
+  for (;;) {
+    const batch = await model.findAll({
+      ...query,
+      where: values ? and(query.where, getKeysetWhere(keys, values, true)) : query.where,
+      order: keys.map((key) => [key.attribute, key.direction]),
+      limit: batchSize,
+    });
+    if (batch.length) {
+      yield batch;
+    }
+    if (batch.length < batchSize) {
+      return;
+    }
+    values = getValues(batch[batch.length - 1], keys);
+  }
+}
+
+/**
+ * Fetches a page of rows of a model with keyset (cursor) pagination: the page follows the `after` cursor
+ * or precedes the `before` cursor, found through the sort keys instead of an offset.
+ *
+ * @template M - The Model type
+ *
+ * @param model - The model
+ * @param options - Pagination options
+ *
+ * @returns A promise that resolves to the page
+ *
+ * @throws {PaginationError} If a cursor is invalid or was made with another order, or a sort key
+ * is not an attribute of the model
+ *
+ * @remarks
+ * The primary key completes the sort keys so that rows with equal sort values are neither skipped nor repeated.
+ * Cursors are opaque strings holding the sort values of a row; the sort attributes must not be null.
+ *
+ * @example
+ * ```typescript
+ * const first = await paginate(Movies, { order: [['year', 'DESC']], limit: 20 });
+ * const second = await paginate(Movies, { order: [['year', 'DESC']], limit: 20, after: first.endCursor });
+ * ```
+ */
+export async function paginate<M extends Model>(
+  model: ModelStatic<M>,
+  options: PaginateOptions<M> = {}
+): Promise<Page<M>> {
+  const { limit = 20, order, after, before, ...findOptions } = options;
+  if (!(limit > 0)) {
+    throw new PaginationError(`limit must be greater than 0, found ${limit}`);
+  }
+  if (after && before) {
+    throw new PaginationError('after and before cannot be used together');
+  }
+  const keys = getSortKeys(model, order);
+  const query = getFindOptions(findOptions, keys);
+  const cursor = after || before;
+  const following = !before;
+  const values = cursor ? decodeCursor(keys, cursor) : undefined;
+
+  // the rows preceding a cursor are fetched in the reverse order, then reversed
+  const rows = await model.findAll({
+    ...query,
+    where: values ? and(query.where, getKeysetWhere(keys, values, following)) : query.where,
+    order: keys.map((key) => [key.attribute, (key.direction === 'ASC') === following ? 'ASC' : 'DESC']),
+    limit: limit + 1,
+  });
+  const more = rows.length > limit;
+  const page = rows.slice(0, limit);
+  if (!following) {
+    page.reverse();
+  }
+
+  // a row outside the keyset of the cursor, the one of the cursor included, is on the other side
+  const other = values
+    ? !!(await model.findOne({
+        ...query,
+        attributes: keys.map((key) => key.attribute),
+        where: and(query.where, { [Op.not]: getKeysetWhere(keys, values, following) }),
+      }))
+    : false;
+
+  return {
+    rows: page,
+    hasNext: following ? more : other,
+    hasPrevious: following ? other : more,
+    startCursor: page.length ? encodeCursor(keys, getValues(page[0], keys)) : null,
+    endCursor: page.length ? encodeCursor(keys, getValues(page[page.length - 1], keys)) : null,
+  };
+}
@@ -0,0 +1,177 @@
+import Logger from '@novice1/logger';
+import { ConnectionOptions } from 'sequelize';
+
+const Log = Logger.debugger('@storehouse/sequelize:replication');
+
+/**
+ * Read replica settings of a SequelizeManager, used when `options.replication` is set.
+ *
+ * @example
+ * ```typescript
+ * const replication: ReplicationSettings = {
+ *   checkInterval: 10000,
+ *   failureThreshold: 2
+ * };
+ * ```
+ */
+export interface ReplicationSettings {
+  /** Interval in milliseconds between two checks of the read replicas. Replicas are only checked by `healthCheck()` if omitted. */
+  checkInterval?: number;
+  /** Number of consecutive failed checks before a replica is removed from rotation. Defaults to 1. */
+  failureThreshold?: number;
+  /** Maximum time in milliseconds of a replica check. Defaults to 5000. */
+  timeout?: number;
+}
+
+/**
+ * Health of the writer or of a read replica.
+ */
+export interface ReplicaHealth {
+  /** Whether the connection is the writer or a read replica */
+  role: 'write' | 'read';
+  /** Position of the read replica in `options.replication.read` */
+  index?: number;
+  /** Host of the connection */
+  host?: string;
+  /** Port of the connection */
+  port?: string | number;
+  /** Whether the connection could be opened */
+  healthy: boolean;
+  /** Whether the read replica receives reads */
+  inRotation?: boolean;
+  /** Time taken to connect in milliseconds */
+  latency?: number;
+  /** Error message if the check failed */
+  error?: string;
+}
+
+interface PoolLike {
+  acquire(): Promise<object>;
+  destroy(connection: object): void;
+}
+
+/**
+ * Internals of the Sequelize connection manager used for routing.
+ */
+export interface ReplicatedConnectionManager {
+  config: { replication?: { read: ConnectionOptions[]; write: ConnectionOptions } | false };
+  pool?: { read?: PoolLike };
+  _connect(config: ConnectionOptions): Promise<object>;
+  _disconnect(connection: object): Promise<void>;
+}
+
+/**
+ * Keeps unhealthy read replicas out of rotation until they recover.
+ * New read connections are only opened on replicas in rotation, and pooled connections
+ * to a replica removed from rotation are destroyed when they are acquired.
+ *
+ * @remarks
+ * Usually used through {@link SequelizeManager.checkReplicas} and {@link SequelizeManager.healthCheck}.
+ */
+export class ReplicaRouter {
+  protected connectionManager: ReplicatedConnectionManager;
+  protected settings: ReplicationSettings;
+  protected replicas: ConnectionOptions[];
+  protected failures: number[];
+  protected excluded = new Set<ConnectionOptions>();
+  protected owners = new WeakMap<object, ConnectionOptions>();
+
+  /**
+   * @param connectionManager - The connection manager of a Sequelize instance using replication
+   * @param settings - The replication settings
+   */
+  constructor(connectionManager: ReplicatedConnectionManager, settings: ReplicationSettings = {}) {
+    this.connectionManager = connectionManager;
+    this.settings = settings;
+    this.replicas = connectionManager.config.replication ? connectionManager.config.replication.read.slice() : [];
+    this.failures = this.replicas.map(() => 0);
+
+    // remember the replica each connection was opened on
+    const connect = connectionManager._connect.bind(connectionManager);
+    connectionManager._connect = async (config) => {
+      const connection = await connect(config);
+      this.owners.set(connection, config);
+      return connection;
+    };
+
+    const read = connectionManager.pool?.read;
+    if (read) {
+      const acquire = read.acquire.bind(read);
+      read.acquire = async () => {
+        for (;;) {
+          const connection = await acquire();
+          const owner = this.owners.get(connection);
+          if (!owner || !this.excluded.has(owner)) {
+            return connection;
+          }
+          read.destroy(connection);
+        }
+      };
+    }
+  }
+
+  /**
+   * Returns the connection options of the read replicas.
+   */
+  getReplicas(): ConnectionOptions[] {
+    return this.replicas.slice();
+  }
+
+  /**
+   * Returns the connection options of the writer.
+   */
+  getWriter(): ConnectionOptions | undefined {
+    return this.connectionManager.config.replication ? this.connectionManager.config.replication.write : undefined;
+  }
+
+  /**
+   * Whether a read replica is in rotation.
+   *
+   * @param index - Position of the replica
+   */
+  isInRotation(index: number): boolean {
+    return !this.excluded.has(this.replicas[index]);
+  }
+
+  /**
+   * Whether every read replica is out of rotation, in which case reads should go to the writer.
+   */
+  isDown(): boolean {
+    return this.replicas.length > 0 && this.excluded.size === this.replicas.length;
+  }
+
+  /**
+   * Records the result of a replica check, removing the replica from rotation after
+   * `failureThreshold` consecutive failures and adding it back after a success.
+   *
+   * @param index - Position of the replica
+   * @param healthy - Whether the check succeeded
+   */
+  report(index: number, healthy: boolean): void {
+    const replica = this.replicas[index];
+    if (healthy) {
+      this.failures[index] = 0;
+      if (this.excluded.delete(replica)) {
+        Log.debug(`replica ${index} recovered`);
+        this.updateRotation();
+      }
+      return;
+    }
+    this.failures[index]++;
+    if (!this.excluded.has(replica) && this.failures[index] >= (this.settings.failureThreshold ?? 1)) {
+      Log.debug(`replica ${index} removed from rotation`);
+      this.excluded.add(replica);
+      this.updateRotation();
+    }
+  }
+
+  protected updateRotation(): void {
+    const replication = this.connectionManager.config.replication;
+    if (!replication) {
+      return;
+    }
+    const healthy = this.replicas.filter((r) => !this.excluded.has(r));
+    // the read pool picks replicas from this list when it opens a connection, it cannot be empty
+    replication.read = healthy.length ? healthy : this.replicas.slice();
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Exponential backoff settings.
+ *
+ * @example
+ * ```typescript
+ * const backoff: BackoffSettings = { initialDelay: 100, maxDelay: 5000, factor: 2, jitter: true };
+ * ```
+ */
+export interface BackoffSettings {
+  /** Delay in milliseconds before the first retry. Defaults to 200. */
+  initialDelay?: number;
+  /** Maximum delay in milliseconds between two attempts. Defaults to 10000. */
+  maxDelay?: number;
+  /** Multiplier applied to the delay after each attempt. Defaults to 2. */
+  factor?: number;
+  /** Randomizes each delay between half and all of its value. Defaults to true. */
+  jitter?: boolean;
+}
+
+/**
+ * Computes the delay before a retry.
+ *
+ * @param attempt - The number of the failed attempt, starting at 1
+ * @param settings - The backoff settings
+ *
+ * @returns The delay in milliseconds
+ */
+export function computeBackoff(attempt: number, settings: BackoffSettings = {}): number {
+  const { initialDelay = 200, maxDelay = 10000, factor = 2, jitter = true } = settings;
+  const delay = Math.min(maxDelay, initialDelay * Math.pow(factor, attempt - 1));
+  return jitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+}
+
+/**
+ * Resolves after a delay.
+ *
+ * @param ms - The delay in milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
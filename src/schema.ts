@@ -0,0 +1,287 @@
+import { StorehouseError } from '@storehouse/core';
+import { DataTypes, Model, ModelStatic, Sequelize, TableName } from 'sequelize';
+
+/**
+ * Schema synchronization mode.
+ * - `none`: never synchronize
+ * - `create-missing`: create missing tables only
+ * - `alter`: alter tables to match the models (destructive)
+ * - `force`: drop and recreate tables (destructive)
+ */
+export type SyncMode = 'none' | 'create-missing' | 'alter' | 'force';
+
+/**
+ * Schema synchronization settings of a SequelizeManager.
+ *
+ * @example
+ * ```typescript
+ * const sync: SyncSettings = {
+ *   mode: 'alter',
+ *   destructiveEnvironments: ['development', 'test']
+ * };
+ * ```
+ */
+export interface SyncSettings {
+  /** The synchronization mode. Defaults to "none". */
+  mode?: SyncMode;
+  /** Allows destructive modes ("alter" and "force") in any environment */
+  allowDestructive?: boolean;
+  /** Values of `process.env.NODE_ENV` in which destructive modes are allowed */
+  destructiveEnvironments?: string[];
+}
+
+/**
+ * Options of a schema synchronization.
+ */
+export interface SyncSchemaOptions {
+  /** Mode to use instead of the configured one */
+  mode?: SyncMode;
+  /** Allows destructive modes for this synchronization */
+  allowDestructive?: boolean;
+}
+
+/**
+ * Type of a planned schema change.
+ * - `createTable`: the table of a model does not exist
+ * - `addColumn`: an attribute has no column
+ * - `changeColumn`: the type or nullability of a column differs from the attribute
+ * - `extraColumn`: a column has no matching attribute
+ * - `addIndex`: an index of a model does not exist
+ * - `extraTable`: a table has no matching model
+ */
+export type SchemaChangeType = 'createTable' | 'addColumn' | 'changeColumn' | 'extraColumn' | 'addIndex' | 'extraTable';
+
+/**
+ * A planned schema change, as returned by {@link diffSchema}.
+ */
+export interface SchemaChange {
+  /** The type of change */
+  type: SchemaChangeType;
+  /** The table concerned */
+  table: string;
+  /** The model concerned, if any */
+  model?: string;
+  /** The column concerned, if any */
+  column?: string;
+  /** The index concerned, if any */
+  index?: string;
+  /** The expected definition, from the model */
+  expected?: string;
+  /** The actual definition, from the database */
+  actual?: string;
+  /** Human readable description of the change */
+  description: string;
+}
+
+/**
+ * Options of a schema diff.
+ */
+export interface DiffSchemaOptions {
+  /** Models to compare, defaults to all models of the connection */
+  models?: ModelStatic<Model>[];
+  /** Tables to ignore when looking for extra tables */
+  ignoreTables?: string[];
+  /** Whether to report columns and tables without matching attribute or model. Defaults to true. */
+  reportExtra?: boolean;
+  /** Whether to compare column types. Defaults to true. */
+  compareTypes?: boolean;
+  /** Whether to look for missing indexes. Defaults to true. */
+  compareIndexes?: boolean;
+}
+
+/**
+ * Thrown when a destructive synchronization mode is not allowed.
+ */
+export class DestructiveSyncError extends StorehouseError {
+  /**
+   * @param mode - The refused mode
+   */
+  constructor(mode: SyncMode) {
+    super(
+      `Sync mode "${mode}" is destructive and not allowed in environment "${process.env.NODE_ENV || ''}". Set "allowDestructive" or "destructiveEnvironments" to allow it.`
+    );
+  }
+}
+
+function tableNameToString(table: TableName): string {
+  return typeof table === 'string' ? table : table.tableName;
+}
+
+/**
+ * Normalizes a SQL type so that dialect aliases compare equal.
+ */
+function normalizeType(type: string): string {
+  return type
+    .toUpperCase()
+    .replace(/\s+/g, ' ')
+    .replace(/,\s+/g, ',')
+    .replace(/^CHARACTER VARYING/, 'VARCHAR')
+    .replace(/^DOUBLE PRECISION/, 'DOUBLE')
+    .replace(/^(TINYINT\(1\)|BOOL)\b.*$/, 'BOOLEAN')
+    .replace(/^(TINYINT|SMALLINT|MEDIUMINT|INTEGER|INT|BIGINT)\(\d+\)/, '$1')
+    .replace(/^INTEGER\b/, 'INT');
+}
+
+/**
+ * Throws if a synchronization mode is destructive and not allowed.
+ *
+ * @param mode - The synchronization mode
+ * @param settings - The synchronization settings
+ * @param allowDestructive - Explicit permission for this synchronization
+ *
+ * @throws {DestructiveSyncError} If the mode is destructive and not allowed
+ */
+export function assertSyncAllowed(mode: SyncMode, settings: SyncSettings = {}, allowDestructive?: boolean): void {
+  if (mode !== 'alter' && mode !== 'force') {
+    return;
+  }
+  if (allowDestructive || settings.allowDestructive) {
+    return;
+  }
+  if (process.env.NODE_ENV && settings.destructiveEnvironments?.includes(process.env.NODE_ENV)) {
+    return;
+  }
+  throw new DestructiveSyncError(mode);
+}
+
+/**
+ * Compares the models of a connection with the database and lists the planned changes.
+ * Nothing is applied.
+ *
+ * @param sequelize - The connection
+ * @param options - Diff options
+ *
+ * @returns The planned schema changes
+ *
+ * @remarks
+ * Column types are compared in a normalized form (e.g. INTEGER and INT are equal).
+ * Types reported as "USER-DEFINED" (e.g. Postgres enums) are not compared.
+ * Virtual attributes have no column and are ignored.
+ */
+export async function diffSchema(sequelize: Sequelize, options: DiffSchemaOptions = {}): Promise<SchemaChange[]> {
+  const queryInterface = sequelize.getQueryInterface();
+  const models = options.models || Object.values(sequelize.models);
+  const reportExtra = options.reportExtra ?? true;
+  const compareTypes = options.compareTypes ?? true;
+  const compareIndexes = options.compareIndexes ?? true;
+  const changes: SchemaChange[] = [];
+
+  const existingTables = new Set(
+    ((await queryInterface.showAllTables()) as (string | { tableName: string })[]).map((t) =>
+      typeof t === 'string' ? t : t.tableName
+    )
+  );
+  const modelTables = new Set<string>();
+
+  for (const model of models) {
+    const tableName = model.getTableName();
+    const table = tableNameToString(tableName);
+    modelTables.add(table);
+
+    if (!existingTables.has(table)) {
+      changes.push({ type: 'createTable', table, model: model.name, description: `Create table "${table}"` });
+      continue;
+    }
+
+    const columns = await queryInterface.describeTable(tableName);
+    const attributes = model.getAttributes();
+    const fields = new Set<string>();
+
+    Object.values(attributes).forEach((attribute) => {
+      // virtual attributes have no column
+      if (attribute.type instanceof DataTypes.VIRTUAL) {
+        return;
+      }
+      const column = attribute.field || '';
+      fields.add(column);
+      const type = attribute.type as { toSql?: () => string };
+      const expected = normalizeType(type.toSql ? type.toSql() : String(attribute.type));
+      const expectedNull = attribute.allowNull !== false && !attribute.primaryKey;
+
+      const actual = columns[column];
+      if (!actual) {
+        changes.push({
+          type: 'addColumn',
+          table,
+          model: model.name,
+          column,
+          expected,
+          description: `Add column "${table}"."${column}" ${expected}`,
+        });
+        return;
+      }
+
+      const actualType = normalizeType(actual.type);
+      if (compareTypes && actualType !== 'USER-DEFINED' && actualType !== expected) {
+        changes.push({
+          type: 'changeColumn',
+          table,
+          model: model.name,
+          column,
+          expected,
+          actual: actualType,
+          description: `Change type of "${table}"."${column}" from ${actualType} to ${expected}`,
+        });
+      }
+      if (!attribute.primaryKey && actual.allowNull !== expectedNull) {
+        changes.push({
+          type: 'changeColumn',
+          table,
+          model: model.name,
+          column,
+          expected: expectedNull ? 'NULL' : 'NOT NULL',
+          actual: actual.allowNull ? 'NULL' : 'NOT NULL',
+          description: `Make "${table}"."${column}" ${expectedNull ? 'nullable' : 'not nullable'}`,
+        });
+      }
+    });
+
+    if (reportExtra) {
+      Object.keys(columns)
+        .filter((column) => !fields.has(column))
+        .forEach((column) => {
+          changes.push({
+            type: 'extraColumn',
+            table,
+            model: model.name,
+            column,
+            actual: normalizeType(columns[column].type),
+            description: `Column "${table}"."${column}" has no matching attribute`,
+          });
+        });
+    }
+
+    const indexes = (compareIndexes && model.options.indexes) || [];
+    if (indexes.length) {
+      const existingIndexes = (
+        (await queryInterface.showIndex(tableName)) as { fields?: { attribute: string }[] }[]
+      ).map((i) => (i.fields || []).map((f) => f.attribute).join(','));
+      indexes.forEach((index) => {
+        const indexFields = (index.fields || [])
+          .map((f) => (typeof f === 'string' ? f : 'name' in f ? f.name : 'attribute' in f ? f.attribute : ''))
+          .join(',');
+        if (!existingIndexes.includes(indexFields)) {
+          changes.push({
+            type: 'addIndex',
+            table,
+            model: model.name,
+            index: index.name,
+            expected: indexFields,
+            description: `Add index ${index.name ? `"${index.name}" ` : ''}on "${table}" (${indexFields})`,
+          });
+        }
+      });
+    }
+  }
+
+  if (reportExtra && !options.models) {
+    const ignored = new Set(options.ignoreTables || []);
+    existingTables.forEach((table) => {
+      if (!modelTables.has(table) && !ignored.has(table)) {
+        changes.push({ type: 'extraTable', table, description: `Table "${table}" has no matching model` });
+      }
+    });
+  }
+
+  return changes;
+}
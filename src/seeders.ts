@@ -0,0 +1,336 @@
+import Logger from '@novice1/logger';
+import { StorehouseError } from '@storehouse/core';
+import { readFileSync, readdirSync } from 'node:fs';
+import { basename, extname, join, resolve } from 'node:path';
+import { DataTypes, Model, ModelStatic, QueryInterface, Sequelize, Transaction } from 'sequelize';
+
+const Log = Logger.debugger('@storehouse/sequelize:seeders');
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type SeedRecord = { [key: string]: any };
+
+/**
+ * Records to seed, keyed by model name.
+ *
+ * @example
+ * ```typescript
+ * const data: SeedData = {
+ *   users: [{ id: 1, name: 'Admin' }],
+ *   movies: [{ id: 1, title: 'Blade', userId: 1 }]
+ * };
+ * ```
+ */
+export type SeedData = Record<string, SeedRecord[]>;
+
+/**
+ * Context passed to the `run` function of a seeder.
+ */
+export interface SeederContext {
+  /** The Sequelize instance of the manager */
+  sequelize: Sequelize;
+  /** The query interface of the manager's connection */
+  queryInterface: QueryInterface;
+  /** The models registered in the manager, indexed by name */
+  models: Record<string, ModelStatic<Model>>;
+  /** The transaction the seeder runs in */
+  transaction: Transaction;
+  /** The environment seeders are run for */
+  environment: string;
+}
+
+/**
+ * A named seeder, either running custom code or loading data through the registered models.
+ *
+ * @example
+ * ```typescript
+ * const seeder: Seeder = {
+ *   name: '001-admin',
+ *   environments: ['dev', 'test'],
+ *   data: {
+ *     users: [{ id: 1, name: 'Admin' }]
+ *   }
+ * };
+ * ```
+ */
+export interface Seeder {
+  /** Unique name of the seeder, stored in the seed history table once run */
+  name: string;
+  /** Environments the seeder runs in. Runs in every environment if omitted. */
+  environments?: string[];
+  /** Records upserted on primary key, keyed by model name */
+  data?: SeedData;
+  /** Custom seeding code, run after `data` is loaded */
+  run?: (context: SeederContext) => Promise<unknown> | unknown;
+  /** Names of the models touched by `run`, used to order seeders by foreign keys */
+  models?: string[];
+}
+
+/**
+ * Seeder settings of a SequelizeManager.
+ *
+ * @example
+ * ```typescript
+ * const seeders: SeedersSettings = {
+ *   source: './seeders',
+ *   environment: process.env.APP_ENV
+ * };
+ * ```
+ */
+export interface SeedersSettings {
+  /**
+   * Directory of seeders, or an array of seeders.
+   * A directory may contain modules exporting a seeder (`run`, `data`, `environments`, `models`),
+   * and `.json` or `.ndjson` data files keyed by model name. A data file may restrict its environments
+   * with a `$environments` key (on any line for NDJSON). Seeder names are file names without extension.
+   */
+  source: string | Seeder[];
+  /** Name of the seed history table. Defaults to "storehouse_seeders". */
+  tableName?: string;
+  /** Default environment. Defaults to `process.env.NODE_ENV` or "development". */
+  environment?: string;
+}
+
+/**
+ * Options of a seeding run.
+ */
+export interface SeedOptions {
+  /** Environment to seed, overrides the configured one */
+  environment?: string;
+  /** Run seeders even if they are already stored in the seed history table */
+  force?: boolean;
+}
+
+/**
+ * Thrown when a seeder cannot be loaded or fails.
+ */
+export class SeederError extends StorehouseError {
+  /**
+   * @param message - Description of the failure
+   * @param cause - The underlying error
+   */
+  constructor(
+    message: string,
+    readonly cause?: unknown
+  ) {
+    super(`Seeding failed: ${message}`);
+  }
+}
+
+const SEEDER_EXTENSIONS = ['.js', '.cjs', '.ts'];
+const DATA_EXTENSIONS = ['.json', '.ndjson'];
+const ENVIRONMENTS_KEY = '$environments';
+
+function parseDataFile(file: string): Seeder {
+  const content = readFileSync(file, 'utf8');
+  const entries: SeedRecord[] =
+    extname(file) === '.ndjson'
+      ? content
+          .split(/\r?\n/)
+          .filter((line) => line.trim())
+          .map((line) => JSON.parse(line))
+      : [JSON.parse(content)];
+
+  const data: SeedData = {};
+  let environments: string[] | undefined;
+  entries.forEach((entry) => {
+    Object.keys(entry).forEach((key) => {
+      if (key === ENVIRONMENTS_KEY) {
+        environments = entry[key];
+        return;
+      }
+      data[key] = (data[key] || []).concat(entry[key]);
+    });
+  });
+  return { name: basename(file, extname(file)), data, environments };
+}
+
+/**
+ * Runs seeders on a Sequelize connection.
+ * Seeders already run are stored in a history table and skipped, and data records are upserted on primary key.
+ * Seeders and the models they load are ordered so that referenced models are seeded first.
+ *
+ * @remarks
+ * Usually used through {@link SequelizeManager.seed}.
+ */
+export class SeederRunner {
+  protected sequelize: Sequelize;
+  protected settings: SeedersSettings;
+  protected tableName: string;
+
+  /**
+   * @param sequelize - The connection to seed
+   * @param settings - The seeder settings
+   */
+  constructor(sequelize: Sequelize, settings: SeedersSettings) {
+    this.sequelize = sequelize;
+    this.settings = settings;
+    this.tableName = settings.tableName || 'storehouse_seeders';
+  }
+
+  /**
+   * Runs the seeders of an environment.
+   *
+   * @param options - Seeding options
+   *
+   * @returns The names of the seeders that ran
+   *
+   * @throws {SeederError} If a seeder cannot be loaded or fails
+   */
+  async seed(options: SeedOptions = {}): Promise<string[]> {
+    const environment = options.environment || this.settings.environment || process.env.NODE_ENV || 'development';
+    await this.ensureTable();
+    const seeders = this.sortSeeders(
+      (await this.loadSeeders()).filter((s) => !s.environments || s.environments.includes(environment))
+    );
+    const history = options.force ? new Set<string>() : await this.getHistory();
+    const done: string[] = [];
+    for (const seeder of seeders) {
+      if (history.has(seeder.name)) {
+        continue;
+      }
+      Log.debug(`running "${seeder.name}" (${environment})`);
+      try {
+        await this.sequelize.transaction(async (transaction) => {
+          if (seeder.data) {
+            await this.loadData(seeder.data, transaction);
+          }
+          await seeder.run?.({
+            sequelize: this.sequelize,
+            queryInterface: this.sequelize.getQueryInterface(),
+            models: this.sequelize.models,
+            transaction,
+            environment,
+          });
+          await this.sequelize.getQueryInterface().bulkDelete(this.tableName, { name: seeder.name }, { transaction });
+          await this.sequelize
+            .getQueryInterface()
+            .bulkInsert(this.tableName, [{ name: seeder.name, environment, appliedAt: new Date() }], { transaction });
+        });
+      } catch (error) {
+        throw error instanceof SeederError ? error : new SeederError(`"${seeder.name}" failed`, error);
+      }
+      done.push(seeder.name);
+    }
+    return done;
+  }
+
+  /**
+   * Returns the name of the seed history table.
+   */
+  getTableNames(): string[] {
+    return [this.tableName];
+  }
+
+  protected async loadSeeders(): Promise<Seeder[]> {
+    const { source } = this.settings;
+    if (Array.isArray(source)) {
+      return source;
+    }
+    const dir = resolve(source);
+    const files = readdirSync(dir)
+      .filter((f) => [...SEEDER_EXTENSIONS, ...DATA_EXTENSIONS].includes(extname(f)) && !f.endsWith('.d.ts'))
+      .sort();
+    const seeders: Seeder[] = [];
+    for (const file of files) {
+      const name = basename(file, extname(file));
+      if (DATA_EXTENSIONS.includes(extname(file))) {
+        seeders.push(parseDataFile(join(dir, file)));
+        continue;
+      }
+      const mod = await import(join(dir, file));
+      const def = mod.run || mod.data ? mod : mod.default;
+      if (typeof def?.run !== 'function' && !def?.data) {
+        throw new SeederError(`"${file}" exports neither a "run" function nor "data"`);
+      }
+      seeders.push({ name, run: def.run, data: def.data, environments: def.environments, models: def.models });
+    }
+    return seeders;
+  }
+
+  /**
+   * Returns the models referenced by a model through foreign keys.
+   */
+  protected getDependencies(modelName: string): string[] {
+    const models = this.sequelize.models;
+    const byTable = new Map<string, string>();
+    Object.keys(models).forEach((name) => {
+      const table = models[name].getTableName();
+      byTable.set(typeof table === 'string' ? table : table.tableName, name);
+    });
+    const deps: string[] = [];
+    Object.values(models[modelName].getAttributes()).forEach((attribute) => {
+      const ref = attribute.references;
+      const target = typeof ref === 'string' ? ref : ref?.model;
+      if (!target) {
+        return;
+      }
+      const name =
+        typeof target === 'string' ? byTable.get(target) || (models[target] ? target : undefined) : target.name;
+      if (name && name !== modelName && models[name]) {
+        deps.push(name);
+      }
+    });
+    return deps;
+  }
+
+  /**
+   * Returns the depth of a model in the foreign key graph: 0 for models without references.
+   */
+  protected getDepth(modelName: string, visiting = new Set<string>()): number {
+    if (visiting.has(modelName)) {
+      return 0;
+    }
+    visiting.add(modelName);
+    const depth = this.getDependencies(modelName).reduce(
+      (max, dep) => Math.max(max, this.getDepth(dep, visiting) + 1),
+      0
+    );
+    visiting.delete(modelName);
+    return depth;
+  }
+
+  protected getSeederDepth(seeder: Seeder): number {
+    const names = [...Object.keys(seeder.data || {}), ...(seeder.models || [])];
+    return names.reduce((max, name) => Math.max(max, this.sequelize.isDefined(name) ? this.getDepth(name) : 0), 0);
+  }
+
+  protected sortSeeders(seeders: Seeder[]): Seeder[] {
+    // stable: seeders of the same depth keep their source order
+    return seeders
+      .map((seeder, index) => ({ seeder, index, depth: this.getSeederDepth(seeder) }))
+      .sort((a, b) => a.depth - b.depth || a.index - b.index)
+      .map(({ seeder }) => seeder);
+  }
+
+  protected async loadData(data: SeedData, transaction: Transaction): Promise<void> {
+    const names = Object.keys(data);
+    names.forEach((name) => {
+      if (!this.sequelize.isDefined(name)) {
+        throw new SeederError(`model "${name}" is not registered`);
+      }
+    });
+    names.sort((a, b) => this.getDepth(a) - this.getDepth(b));
+    for (const name of names) {
+      const model = this.sequelize.model(name);
+      for (const record of data[name]) {
+        await model.upsert(record, { transaction });
+      }
+    }
+  }
+
+  protected async ensureTable(): Promise<void> {
+    await this.sequelize.getQueryInterface().createTable(this.tableName, {
+      id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+      name: { type: DataTypes.STRING, allowNull: false, unique: true },
+      environment: { type: DataTypes.STRING, allowNull: false },
+      appliedAt: { type: DataTypes.DATE, allowNull: false },
+    });
+  }
+
+  protected async getHistory(): Promise<Set<string>> {
+    const rows = (await this.sequelize.getQueryInterface().select(null, this.tableName, { raw: true })) as {
+      name: string;
+    }[];
+    return new Set(rows.map((r) => r.name));
+  }
+}
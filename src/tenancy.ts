@@ -0,0 +1,239 @@
+import { MigrationsSettings } from './migrations';
+import { IManager, StorehouseError } from '@storehouse/core';
+import { Association, Model, ModelAttributeColumnOptions, ModelStatic, Sequelize } from 'sequelize';
+
+/**
+ * Schema-per-tenant settings of a SequelizeManager.
+ *
+ * @example
+ * ```typescript
+ * const tenancy: TenancySettings = {
+ *   schemaPrefix: 'org_',
+ *   migrations: { source: './migrations/tenant' }
+ * };
+ * ```
+ */
+export interface TenancySettings {
+  /** Prefix of the schema name of a tenant, followed by its ID. Defaults to "tenant_". */
+  schemaPrefix?: string;
+  /** Builds the schema name of a tenant, overrides `schemaPrefix` */
+  schemaName?: (tenantId: string) => string;
+  /** Migrations run in each tenant schema by {@link SequelizeManager.migrateTenant}. Defaults to the manager's `migrations`. */
+  migrations?: MigrationsSettings;
+}
+
+/**
+ * Options of {@link SequelizeManager.createTenant}.
+ */
+export interface CreateTenantOptions {
+  /** Creates the tables of the registered models in the tenant schema */
+  sync?: boolean;
+  /** Runs the tenant migrations in the tenant schema */
+  migrate?: boolean;
+}
+
+/**
+ * Thrown when a tenant ID cannot be used to build a schema name.
+ */
+export class InvalidTenantError extends StorehouseError {
+  /**
+   * @param tenantId - The refused tenant ID
+   */
+  constructor(tenantId: string) {
+    super(`Invalid tenant ID "${tenantId}": only letters, digits, "_" and "-" are allowed`);
+  }
+}
+
+/**
+ * A view of a manager scoped to one tenant: its models are bound to the tenant schema.
+ * On dialects without schemas (e.g. SQLite, MySQL), the tables of a tenant are prefixed with `<schema>.`.
+ *
+ * @remarks
+ * Usually obtained through {@link SequelizeManager.forTenant}. It implements IManager so that it can be
+ * added to a registry, but its connection is the manager's: closing it is a no-op.
+ *
+ * @example
+ * ```typescript
+ * const acme = manager.forTenant('acme');
+ * const Movies = acme.getModel('movies');
+ * await Movies.findAll(); // SELECT ... FROM "tenant_acme"."movies"
+ * ```
+ */
+export class TenantScope implements IManager {
+  protected sequelize: Sequelize;
+  protected models = new Map<string, ModelStatic<Model>>();
+
+  /**
+   * The ID of the tenant.
+   * @readonly
+   */
+  readonly tenantId: string;
+
+  /**
+   * The schema of the tenant.
+   * @readonly
+   */
+  readonly schema: string;
+
+  /**
+   * @param sequelize - The connection of the manager
+   * @param tenantId - The ID of the tenant
+   * @param schema - The schema of the tenant
+   */
+  constructor(sequelize: Sequelize, tenantId: string, schema: string) {
+    this.sequelize = sequelize;
+    this.tenantId = tenantId;
+    this.schema = schema;
+  }
+
+  /**
+   * Returns the connection of the manager.
+   */
+  getConnection(): Sequelize {
+    return this.sequelize;
+  }
+
+  /**
+   * Does nothing: the connection belongs to the manager.
+   */
+  closeConnection(): void {
+    // the connection is closed with the manager
+  }
+
+  /**
+   * Fetches a model of the manager bound to the tenant schema.
+   *
+   * @template M - The ModelStatic type, defaults to ModelStatic<Model>
+   *
+   * @param name - The name of the model to retrieve
+   *
+   * @returns The model class bound to the tenant schema
+   */
+  getModel<M extends ModelStatic<Model> = ModelStatic<Model>>(name: string): M;
+  /**
+   * Fetches a model of the manager bound to the tenant schema.
+   *
+   * @template M - The Model type, defaults to Model
+   *
+   * @param name - The name of the model to retrieve
+   *
+   * @returns The model class bound to the tenant schema
+   */
+  getModel<M extends Model = Model>(name: string): ModelStatic<M>;
+  getModel<M extends ModelStatic<Model> = ModelStatic<Model>>(name: string): M {
+    let model = this.models.get(name);
+    if (!model) {
+      const base = this.sequelize.model(name);
+      model = base.schema(this.schema);
+      this.models.set(name, model);
+      // the copy shares the attributes and associations of the model, which target the default schema
+      this.bindReferences(model);
+      (model as { associations: Record<string, Association> }).associations = {};
+      const scoped = model;
+      Object.values(base.associations).forEach((association) => this.associate(scoped, association));
+    }
+    return model as M;
+  }
+
+  /**
+   * Forgets the models bound to the tenant schema, so that they are bound again
+   * with the current models and associations of the manager.
+   * Called when a model is registered in or removed from the manager.
+   */
+  clearModels(): void {
+    this.models.clear();
+  }
+
+  /**
+   * Lists the registered models bound to the tenant schema, in creation order of their tables.
+   */
+  getModels(): ModelStatic<Model>[] {
+    // getModelsTopoSortedByForeignKey returns the models in drop order, or null if they have cycles
+    const sorted = this.sequelize.modelManager.getModelsTopoSortedByForeignKey();
+    const names = sorted
+      ? sorted.map((m) => (m as ModelStatic<Model>).options.modelName || m.name).reverse()
+      : Object.keys(this.sequelize.models);
+    return names.map((name) => this.getModel(name));
+  }
+
+  protected bindReferences(model: ModelStatic<Model>): void {
+    const { queryGenerator } = this.sequelize.getQueryInterface() as unknown as {
+      queryGenerator: { quoteTable(table: unknown): string };
+    };
+    const names = new Map(
+      Object.values(this.sequelize.models).map((m) => [queryGenerator.quoteTable(m.getTableName()), getModelName(m)])
+    );
+    const attributes: Record<string, ModelAttributeColumnOptions> = {};
+    Object.entries(model.getAttributes()).forEach(([key, attribute]) => {
+      const references = typeof attribute.references === 'object' ? attribute.references : undefined;
+      const target = references?.model && names.get(queryGenerator.quoteTable(references.model));
+      attributes[key] = target
+        ? { ...attribute, references: { ...references, model: this.getModel(target).getTableName() as string } }
+        : { ...attribute };
+    });
+    (model as { rawAttributes: Record<string, ModelAttributeColumnOptions> }).rawAttributes = attributes;
+    (model as unknown as { refreshAttributes(): void }).refreshAttributes();
+  }
+
+  protected associate(source: ModelStatic<Model>, association: Association): void {
+    const target = this.getModel(getModelName(association.target));
+    // the options and the through model are not part of the public typings
+    const { options: associationOptions, through } = association as Association & {
+      options: object;
+      through?: { model: ModelStatic<Model> };
+    };
+    const options: Record<string, unknown> = { ...associationOptions };
+    switch (association.associationType) {
+      case 'HasOne':
+        source.hasOne(target, options);
+        break;
+      case 'HasMany':
+        source.hasMany(target, options);
+        break;
+      case 'BelongsTo':
+        source.belongsTo(target, options);
+        break;
+      case 'BelongsToMany':
+        source.belongsToMany(target, {
+          ...options,
+          through: { ...(options.through as object), model: this.getModel(getModelName(through!.model)) },
+        });
+        break;
+    }
+  }
+
+  /**
+   * Tells whether the connection of the manager can authenticate.
+   */
+  async isConnected(): Promise<boolean> {
+    try {
+      await this.sequelize.authenticate();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+function getModelName(model: ModelStatic<Model>): string {
+  return model.options.modelName || model.name;
+}
+
+const TENANT_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Builds the schema name of a tenant.
+ *
+ * @param tenantId - The ID of the tenant
+ * @param settings - The tenancy settings
+ *
+ * @returns The schema name
+ *
+ * @throws {InvalidTenantError} If the tenant ID contains other characters than letters, digits, "_" and "-"
+ */
+export function getTenantSchema(tenantId: string, settings: TenancySettings = {}): string {
+  if (!TENANT_ID_PATTERN.test(tenantId)) {
+    throw new InvalidTenantError(tenantId);
+  }
+  return settings.schemaName ? settings.schemaName(tenantId) : `${settings.schemaPrefix ?? 'tenant_'}${tenantId}`;
+}
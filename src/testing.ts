@@ -0,0 +1,337 @@
+import { SeedData, SequelizeManager, SequelizeManagerSettings } from './index';
+import Logger from '@novice1/logger';
+import { InvalidManagerConfigError, ModelNotFoundError, Registry } from '@storehouse/core';
+import { Model, ModelStatic, Options, QueryTypes, Transaction, TransactionOptions } from 'sequelize';
+
+const Log = Logger.debugger('@storehouse/sequelize:testing');
+
+/**
+ * How {@link TestDatabase.reset} brings the database back to its state after setup.
+ * - `truncate`: empties every table, then loads the fixtures again
+ * - `restore`: empties every table, then inserts the rows saved after setup
+ * - `transaction`: rolls back the transaction opened for the test, the fastest
+ */
+export type TestIsolation = 'truncate' | 'restore' | 'transaction';
+
+/**
+ * Context passed to a fixtures function.
+ */
+export interface FixturesContext {
+  /** The manager of the test database */
+  manager: SequelizeManager;
+  /** The models registered in the manager, indexed by name */
+  models: Record<string, ModelStatic<Model>>;
+}
+
+/**
+ * Settings of a {@link TestDatabase}.
+ *
+ * @example
+ * ```typescript
+ * const settings: TestDatabaseSettings = {
+ *   config: appConfig,
+ *   fixtures: { users: [{ id: 1, name: 'Admin' }] },
+ *   registry: Storehouse,
+ *   isolation: 'transaction'
+ * };
+ * ```
+ */
+export interface TestDatabaseSettings {
+  /** Name of the manager, also used in the registry. Defaults to "test". */
+  name?: string;
+  /**
+   * Configuration of the manager, usually the one of the application: its models are registered
+   * and its connection options are replaced with an in-memory SQLite database.
+   */
+  config?: SequelizeManagerSettings;
+  /** Connection options replacing the in-memory SQLite database, e.g. to test against another dialect */
+  options?: Options;
+  /** Records created after sync, keyed by model name, or a function creating them */
+  fixtures?: SeedData | ((context: FixturesContext) => Promise<void>);
+  /** Registry the manager is added to on setup and removed from on teardown */
+  registry?: Registry;
+  /** How the database is reset between tests. Defaults to `truncate`, `transaction` requires in-memory SQLite. */
+  isolation?: TestIsolation;
+}
+
+// schema-bound tables are "<schema>.<table>", which is also their name on dialects without schemas
+function getTableName(model: ModelStatic<Model>): string {
+  const table = model.getTableName();
+  return typeof table === 'string' ? table : [table.schema, table.tableName].filter(Boolean).join('.');
+}
+
+/**
+ * Manager nesting every transaction in the transaction of the current test, as a savepoint.
+ */
+class TestManager extends SequelizeManager {
+  testTransaction?: Transaction;
+
+  transaction<T>(options: TransactionOptions, autoCallback: (t: Transaction) => PromiseLike<T>): Promise<T>;
+  transaction<T>(autoCallback: (t: Transaction) => PromiseLike<T>): Promise<T>;
+  transaction(options?: TransactionOptions): Promise<Transaction>;
+  transaction<T>(
+    optionsOrCallback?: TransactionOptions | ((t: Transaction) => PromiseLike<T>),
+    autoCallback?: (t: Transaction) => PromiseLike<T>
+  ): Promise<T | Transaction> {
+    let options = typeof optionsOrCallback === 'function' ? {} : optionsOrCallback || {};
+    const callback = typeof optionsOrCallback === 'function' ? optionsOrCallback : autoCallback;
+    if (this.testTransaction && !options.transaction) {
+      options = { ...options, transaction: this.testTransaction };
+    }
+    return callback ? super.transaction(options, callback) : super.transaction(options);
+  }
+}
+
+/**
+ * An ephemeral database for tests: a SequelizeManager on in-memory SQLite built from the models of a configuration,
+ * synced, loaded with fixtures and reset between tests.
+ *
+ * @remarks
+ * Imported from `@storehouse/sequelize/lib/testing`. SQLite requires the `sqlite3` package.
+ * In `transaction` mode, the transactions started by the tested code are nested in the transaction of the test.
+ *
+ * @example
+ * ```typescript
+ * const db = new TestDatabase({ config: appConfig, fixtures, registry: Storehouse, isolation: 'transaction' });
+ *
+ * before(() => db.setup());
+ *
+ * afterEach(() => db.reset());
+ *
+ * after(() => db.teardown());
+ * ```
+ */
+export class TestDatabase {
+  protected settings: TestDatabaseSettings;
+  protected snapshot = new Map<string, Record<string, unknown>[]>();
+
+  /**
+   * The manager of the test database.
+   * @readonly
+   */
+  readonly manager: SequelizeManager;
+
+  /**
+   * The name of the manager, also used in the registry.
+   * @readonly
+   */
+  readonly name: string;
+
+  /**
+   * @param settings - The test database settings
+   *
+   * @throws {InvalidManagerConfigError} If the isolation is `transaction` and the database is not in-memory SQLite,
+   * or if the configuration is invalid
+   */
+  constructor(settings: TestDatabaseSettings = {}) {
+    this.settings = settings;
+    this.name = settings.name || 'test';
+    const options: Options = settings.options
+      ? { logging: false, ...settings.options }
+      : { dialect: 'sqlite', storage: ':memory:', logging: false };
+    if (this.isolation === 'transaction' && (options.dialect !== 'sqlite' || options.storage !== ':memory:')) {
+      // every query shares the single connection of an in-memory database, and so the transaction of the test
+      throw new InvalidManagerConfigError('"transaction" isolation requires an in-memory SQLite database');
+    }
+    this.manager = new TestManager({
+      name: this.name,
+      config: { ...settings.config, options, replication: undefined },
+    });
+  }
+
+  /**
+   * Returns the isolation mode of the database.
+   */
+  get isolation(): TestIsolation {
+    return this.settings.isolation || 'truncate';
+  }
+
+  /**
+   * Creates the tables, loads the fixtures and adds the manager to the registry.
+   */
+  async setup(): Promise<void> {
+    await this.manager.sync({ force: true });
+    await this.loadFixtures();
+    if (this.isolation === 'restore') {
+      await this.saveSnapshot();
+    }
+    this.settings.registry?.addManager(this.name, this.manager);
+    if (this.isolation === 'transaction') {
+      await this.begin();
+    }
+    Log.debug(`[${this.name}]`, `ready (${this.isolation})`);
+  }
+
+  /**
+   * Opens the transaction of the next test in `transaction` mode.
+   */
+  protected async begin(): Promise<void> {
+    const manager = this.manager as TestManager;
+    if (this.isolation !== 'transaction' || manager.testTransaction) {
+      return;
+    }
+    manager.testTransaction = await manager.transaction();
+  }
+
+  /**
+   * Brings the database back to its state after setup, according to the isolation mode.
+   */
+  async reset(): Promise<void> {
+    const manager = this.manager as TestManager;
+    switch (this.isolation) {
+      case 'transaction': {
+        const transaction = manager.testTransaction;
+        manager.testTransaction = undefined;
+        await transaction?.rollback();
+        await this.begin();
+        break;
+      }
+      case 'restore':
+        await this.truncate();
+        await this.restoreSnapshot();
+        break;
+      default:
+        await this.truncate();
+        await this.loadFixtures();
+    }
+  }
+
+  /**
+   * Empties every table of the registered models, disabling foreign key checks where the dialect allows it.
+   */
+  async truncate(): Promise<void> {
+    const manager = this.manager;
+    const models = this.getModels().reverse();
+    switch (manager.getDialect()) {
+      case 'sqlite': {
+        // truncate() only resets the sequence of the first table with restartIdentity
+        const sequences = await manager.query(
+          "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'sqlite_sequence'",
+          { type: QueryTypes.SELECT }
+        );
+        await manager.query('PRAGMA foreign_keys = OFF');
+        try {
+          for (const model of models) {
+            await model.truncate();
+            if (sequences.length) {
+              await manager.query('DELETE FROM sqlite_sequence WHERE name = ?', {
+                replacements: [getTableName(model)],
+              });
+            }
+          }
+        } finally {
+          await manager.query('PRAGMA foreign_keys = ON');
+        }
+        break;
+      }
+      case 'mysql':
+      case 'mariadb':
+        // the checks are disabled per connection
+        await manager.transaction(async (transaction) => {
+          await manager.query('SET FOREIGN_KEY_CHECKS = 0', { transaction });
+          for (const model of models) {
+            await model.truncate({ transaction });
+          }
+          await manager.query('SET FOREIGN_KEY_CHECKS = 1', { transaction });
+        });
+        break;
+      case 'postgres':
+        for (const model of models) {
+          await model.truncate({ cascade: true, restartIdentity: true });
+        }
+        break;
+      default:
+        // referencing tables are emptied first
+        for (const model of models) {
+          await model.destroy({ where: {}, hooks: false });
+        }
+    }
+  }
+
+  /**
+   * Removes the manager from the registry and closes its connection.
+   */
+  async teardown(): Promise<void> {
+    const manager = this.manager as TestManager;
+    const transaction = manager.testTransaction;
+    manager.testTransaction = undefined;
+    await transaction?.rollback();
+    const registry = this.settings.registry;
+    if (registry?.hasManager(this.name) && registry.getManager(this.name) === manager) {
+      registry.removeManager(this.name);
+    }
+    await manager.closeConnection();
+  }
+
+  /**
+   * Lists the registered models in creation order of their tables.
+   */
+  protected getModels(): ModelStatic<Model>[] {
+    // getModelsTopoSortedByForeignKey returns the models in drop order, or null if they have cycles
+    const sorted = this.manager.modelManager.getModelsTopoSortedByForeignKey();
+    return sorted ? (sorted as ModelStatic<Model>[]).reverse() : Object.values(this.manager.models);
+  }
+
+  protected async loadFixtures(): Promise<void> {
+    const fixtures = this.settings.fixtures;
+    if (typeof fixtures === 'function') {
+      await fixtures({ manager: this.manager, models: this.manager.models });
+      return;
+    }
+    if (!fixtures) {
+      return;
+    }
+    Object.keys(fixtures).forEach((name) => {
+      if (!this.manager.isDefined(name)) {
+        throw new ModelNotFoundError(name, this.name);
+      }
+    });
+    for (const model of this.getModels()) {
+      const records = fixtures[model.name];
+      if (records?.length) {
+        await model.bulkCreate(records);
+      }
+    }
+  }
+
+  protected async saveSnapshot(): Promise<void> {
+    this.snapshot.clear();
+    const queryInterface = this.manager.getQueryInterface();
+    for (const model of this.getModels()) {
+      const rows = await queryInterface.select(null, model.getTableName(), { raw: true });
+      this.snapshot.set(model.name, rows as Record<string, unknown>[]);
+    }
+  }
+
+  protected async restoreSnapshot(): Promise<void> {
+    const queryInterface = this.manager.getQueryInterface();
+    for (const model of this.getModels()) {
+      const rows = this.snapshot.get(model.name);
+      if (rows?.length) {
+        await queryInterface.bulkInsert(model.getTableName(), rows);
+      }
+    }
+    if (this.manager.getDialect() === 'postgres') {
+      await this.resetSequences();
+    }
+  }
+
+  protected async resetSequences(): Promise<void> {
+    const queryInterface = this.manager.getQueryInterface();
+    for (const model of this.getModels()) {
+      const attribute = Object.values(model.getAttributes()).find((a) => a.autoIncrement);
+      if (!attribute || !this.snapshot.get(model.name)?.length) {
+        continue;
+      }
+      const table = getTableName(model)
+        .split('.')
+        .map((part) => queryInterface.quoteIdentifier(part))
+        .join('.');
+      const column = queryInterface.quoteIdentifier(attribute.field || '');
+      await this.manager.query(
+        `SELECT setval(pg_get_serial_sequence(:table, :column), (SELECT MAX(${column}) FROM ${table}))`,
+        { replacements: { table, column: attribute.field } }
+      );
+    }
+  }
+}
@@ -0,0 +1,160 @@
+import { BackoffSettings } from './retry';
+import { StorehouseError } from '@storehouse/core';
+import {
+  AccessDeniedError,
+  ConnectionError as SequelizeConnectionError,
+  Dialect,
+  HostNotFoundError,
+  InvalidConnectionError,
+  TimeoutError,
+  TransactionOptions,
+} from 'sequelize';
+
+/**
+ * Retry policy of {@link SequelizeManager.withTransaction}.
+ *
+ * @example
+ * ```typescript
+ * const transactions: TransactionRetrySettings = {
+ *   retries: 5,
+ *   backoff: { initialDelay: 50, maxDelay: 1000 },
+ *   onRetry: ({ attempt, error }) => logger.warn(`transaction retry #${attempt}`, error)
+ * };
+ * ```
+ */
+export interface TransactionRetrySettings {
+  /** Number of retries after a transient failure. Defaults to 3. */
+  retries?: number;
+  /** Delays between attempts. Defaults to an initial delay of 50ms and a maximum delay of 2000ms. */
+  backoff?: BackoffSettings;
+  /** Decides whether a failed attempt is retried. Defaults to {@link isTransientError} for the dialect. */
+  retryOn?: (error: unknown, attempt: number) => boolean;
+  /** Called before each retry */
+  onRetry?: (event: TransactionRetryEvent) => void;
+}
+
+/**
+ * Options of {@link SequelizeManager.withTransaction}.
+ *
+ * @example
+ * ```typescript
+ * const options: WithTransactionOptions = {
+ *   isolationLevel: Transaction.ISOLATION_LEVELS.SERIALIZABLE,
+ *   retries: 5
+ * };
+ * ```
+ */
+export interface WithTransactionOptions extends TransactionOptions, TransactionRetrySettings {}
+
+/**
+ * Reported before a transaction is retried.
+ */
+export interface TransactionRetryEvent {
+  /** The name of the manager */
+  manager: string;
+  /** The number of the failed attempt, starting at 1 */
+  attempt: number;
+  /** Delay in milliseconds before the next attempt */
+  delay: number;
+  /** The error of the failed attempt */
+  error: unknown;
+}
+
+/**
+ * Thrown by {@link withUnitOfWork} when a transaction fails to commit.
+ * Transactions committed before it cannot be rolled back anymore and are listed in `committed`,
+ * the following ones are rolled back.
+ */
+export class UnitOfWorkCommitError extends StorehouseError {
+  /**
+   * @param manager - Name of the manager whose transaction failed to commit
+   * @param committed - Names of the managers whose transaction was committed
+   * @param rolledBack - Names of the managers whose transaction was rolled back
+   * @param rollbackErrors - Errors of the rollbacks that failed, by manager name
+   * @param cause - The commit error
+   */
+  constructor(
+    readonly manager: string,
+    readonly committed: string[],
+    readonly rolledBack: string[],
+    readonly rollbackErrors: Record<string, unknown>,
+    readonly cause?: unknown
+  ) {
+    super(
+      `Unit of work could not commit on manager "${manager}"${
+        committed.length ? `, already committed on ${committed.map((name) => `"${name}"`).join(', ')}` : ''
+      }`
+    );
+  }
+}
+
+// deadlocks, serialization failures and lock timeouts, per dialect
+const TRANSIENT_CODES: Partial<Record<Dialect, (string | number)[]>> = {
+  mysql: ['ER_LOCK_DEADLOCK', 'ER_LOCK_WAIT_TIMEOUT', 1213, 1205],
+  mariadb: ['ER_LOCK_DEADLOCK', 'ER_LOCK_WAIT_TIMEOUT', 1213, 1205],
+  postgres: ['40001', '40P01', '55P03'],
+  mssql: [1205, 1222],
+  sqlite: ['SQLITE_BUSY', 'SQLITE_LOCKED'],
+  db2: ['-911', '-913', -911, -913],
+};
+
+// lost connections, whatever the dialect
+const CONNECTION_CODES: (string | number)[] = [
+  'ECONNRESET',
+  'EPIPE',
+  'ETIMEDOUT',
+  'PROTOCOL_CONNECTION_LOST',
+  'ER_SERVER_SHUTDOWN',
+  '57P01',
+  '08000',
+  '08003',
+  '08006',
+];
+
+function getErrorCodes(error: unknown): (string | number)[] {
+  const codes: (string | number)[] = [];
+  let current = error as { code?: string | number; errno?: number; number?: number; parent?: unknown } | undefined;
+  // look at the error and the driver errors it wraps
+  for (let depth = 0; current && typeof current === 'object' && depth < 3; depth++) {
+    [current.code, current.errno, current.number].forEach((code) => {
+      if (code !== undefined) {
+        codes.push(code);
+      }
+    });
+    current = current.parent as typeof current;
+  }
+  return codes;
+}
+
+/**
+ * Tells whether an error is transient, i.e. whether a transaction failing with it can be retried:
+ * deadlocks (MySQL/MariaDB `ER_LOCK_DEADLOCK`, Postgres `40P01`, SQL Server 1205),
+ * serialization failures (Postgres `40001`), lock timeouts (MySQL `ER_LOCK_WAIT_TIMEOUT`, SQLite `SQLITE_BUSY`)
+ * and lost connections. Constraint, validation and authentication errors are permanent.
+ *
+ * @param error - The error
+ * @param dialect - The dialect of the connection
+ *
+ * @returns True if the error is transient
+ *
+ * @example
+ * ```typescript
+ * await manager.withTransaction(fn, {
+ *   retryOn: (error) => isTransientError(error, 'postgres') || error instanceof OptimisticLockError
+ * });
+ * ```
+ */
+export function isTransientError(error: unknown, dialect: Dialect): boolean {
+  if (
+    error instanceof AccessDeniedError ||
+    error instanceof HostNotFoundError ||
+    error instanceof InvalidConnectionError
+  ) {
+    return false;
+  }
+  if (error instanceof SequelizeConnectionError || error instanceof TimeoutError) {
+    return true;
+  }
+  const transient = [...(TRANSIENT_CODES[dialect] || []), ...CONNECTION_CODES];
+  return getErrorCodes(error).some((code) => transient.includes(code));
+}
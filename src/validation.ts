@@ -0,0 +1,236 @@
+import { DiscoveredModel, discoverModels } from './discovery';
+import { EncryptionSettings, decodeEncryptionKey } from './encryption';
+import type { ModelSettings, SequelizeManagerSettings } from './index';
+import { DataTypes, Dialect, ModelAttributeColumnOptions, ModelOptions, Options } from 'sequelize';
+
+const DIALECTS: Dialect[] = ['mysql', 'postgres', 'sqlite', 'mariadb', 'mssql', 'db2', 'snowflake', 'oracle'];
+
+const DIALECT_OPTIONS: Partial<Record<keyof Options, Dialect[]>> = {
+  storage: ['sqlite'],
+  native: ['postgres'],
+  standardConformingStrings: ['postgres'],
+  clientMinMessages: ['postgres'],
+};
+
+const ENCRYPTED_TYPES = ['STRING', 'TEXT', 'CITEXT'];
+
+const DIALECT_MODEL_OPTIONS: Partial<Record<keyof ModelOptions, Dialect[]>> = {
+  engine: ['mysql', 'mariadb'],
+  charset: ['mysql', 'mariadb'],
+  collate: ['mysql', 'mariadb'],
+  initialAutoIncrement: ['mysql', 'mariadb'],
+};
+
+/**
+ * A model to validate and where it was declared.
+ */
+export interface ModelSettingsSource {
+  /** Where the model was declared, e.g. "models[0]" or the path of a discovered module */
+  source: string;
+  /** The settings of the model */
+  settings: ModelSettings;
+}
+
+/**
+ * Result of {@link validateSettings}.
+ */
+export interface SettingsValidationResult {
+  /** Whether no problem was found */
+  valid: boolean;
+  /** Description of every problem found */
+  problems: string[];
+}
+
+/**
+ * Returns the name a model is registered under.
+ *
+ * @param m - The model settings
+ */
+export function getModelSettingsName(m: ModelSettings): string | undefined {
+  return m.options?.modelName || (m.model?.init ? m.model.name : undefined);
+}
+
+function getColumn(attribute: unknown): ModelAttributeColumnOptions {
+  return (
+    typeof attribute === 'string' || typeof attribute === 'function' || attribute instanceof DataTypes.ABSTRACT
+      ? { type: attribute }
+      : attribute
+  ) as ModelAttributeColumnOptions;
+}
+
+function hasType(attribute: unknown): boolean {
+  // an attribute is either a data type, e.g. 'VARCHAR(10)', or column options with a type
+  if (typeof attribute === 'string' || typeof attribute === 'function' || attribute instanceof DataTypes.ABSTRACT) {
+    return !!attribute;
+  }
+  return !!attribute && typeof attribute === 'object' && !!(attribute as ModelAttributeColumnOptions).type;
+}
+
+/**
+ * Lists the problems of the connection options.
+ *
+ * @param options - The Sequelize options
+ */
+export function getOptionsProblems(options: Options = {}): string[] {
+  if (!options.dialect) {
+    return ['options.dialect is required'];
+  }
+  const dialect = options.dialect;
+  if (!DIALECTS.includes(dialect)) {
+    return [`options.dialect "${dialect}" is not supported, expected one of ${DIALECTS.join(', ')}`];
+  }
+  return Object.entries(DIALECT_OPTIONS)
+    .filter(([key, dialects]) => typeof options[key as keyof Options] !== 'undefined' && !dialects.includes(dialect))
+    .map(([key, dialects]) => `options.${key} is not supported by ${dialect}, only by ${dialects.join(', ')}`);
+}
+
+/**
+ * Lists the problems of model settings: missing names, duplicate names, attributes with no type,
+ * options unsupported by the dialect and primary key conflicts.
+ *
+ * @param models - The models to validate and where they were declared
+ * @param dialect - The dialect of the manager
+ */
+export function getModelsProblems(models: ModelSettingsSource[], dialect?: Dialect): string[] {
+  const problems: string[] = [];
+  const sources = new Map<string, string[]>();
+
+  models.forEach(({ source, settings: m }) => {
+    const name = getModelSettingsName(m);
+    const label = name ? `${source} ("${name}")` : source;
+    if (name) {
+      sources.set(name, [...(sources.get(name) || []), source]);
+    } else {
+      problems.push(`${source}: model has neither a model class nor options.modelName`);
+    }
+
+    const attributes = Object.entries(m.attributes || {}) as [string, ModelAttributeColumnOptions][];
+    attributes
+      .filter(([, attribute]) => !hasType(attribute))
+      .forEach(([key]) => problems.push(`${label}: attribute "${key}" has no type`));
+
+    if (dialect) {
+      Object.entries(DIALECT_MODEL_OPTIONS)
+        .filter(
+          ([key, dialects]) =>
+            typeof m.options?.[key as keyof ModelOptions] !== 'undefined' && !dialects.includes(dialect)
+        )
+        .forEach(([key]) => problems.push(`${label}: options.${key} is not supported by ${dialect}`));
+    }
+
+    const columns = attributes.filter(([, attribute]) => attribute && typeof attribute === 'object');
+    const autoIncrements = columns.filter(([, attribute]) => attribute.autoIncrement).map(([key]) => key);
+    if (autoIncrements.length > 1) {
+      problems.push(`${label}: only one attribute can be autoIncrement, found ${autoIncrements.join(', ')}`);
+    }
+    columns
+      .filter(([, attribute]) => attribute.primaryKey && attribute.allowNull === true)
+      .forEach(([key]) => problems.push(`${label}: primary key attribute "${key}" cannot allow null`));
+    const primaryKeys = columns.filter(([, attribute]) => attribute.primaryKey).map(([key]) => key);
+    if (primaryKeys.length > 1 && autoIncrements.some((key) => primaryKeys.includes(key))) {
+      problems.push(
+        `${label}: composite primary key (${primaryKeys.join(', ')}) cannot include an autoIncrement attribute`
+      );
+    }
+    Object.keys(m.encrypted || {})
+      .filter((key) => m.encrypted?.[key])
+      .forEach((key) => {
+        const attribute = m.attributes?.[key];
+        if (!attribute) {
+          problems.push(`${label}: encrypted attribute "${key}" is not defined`);
+          return;
+        }
+        const column = getColumn(attribute);
+        const type = (column.type as { key?: string } | undefined)?.key;
+        if (type && !ENCRYPTED_TYPES.includes(type)) {
+          problems.push(`${label}: encrypted attribute "${key}" must be a STRING or TEXT, found ${type}`);
+        }
+        if (column.get || column.set) {
+          problems.push(`${label}: encrypted attribute "${key}" cannot define get or set`);
+        }
+      });
+  });
+
+  sources.forEach((declared, name) => {
+    if (declared.length > 1) {
+      problems.push(`model "${name}" is defined more than once (${declared.join(', ')})`);
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * Lists the problems of the encryption settings, and of encrypted attributes without encryption settings.
+ *
+ * @param encryption - The encryption settings
+ * @param models - The models of the manager and where they were declared
+ */
+export function getEncryptionProblems(
+  encryption: EncryptionSettings | undefined,
+  models: ModelSettingsSource[]
+): string[] {
+  if (!encryption) {
+    return models
+      .filter(({ settings: m }) => Object.values(m.encrypted || {}).some(Boolean))
+      .map(({ source }) => `${source}: encrypted attributes require the encryption setting`);
+  }
+  const problems: string[] = [];
+  const keys = Object.entries(encryption.keys || {});
+  if (!keys.some(([keyId]) => keyId === encryption.currentKeyId)) {
+    problems.push(`encryption.currentKeyId "${encryption.currentKeyId}" is not one of encryption.keys`);
+  }
+  keys.forEach(([keyId, key]) => {
+    if (keyId.includes(':')) {
+      problems.push(`encryption.keys: key ID "${keyId}" cannot contain ":"`);
+    }
+    const length = decodeEncryptionKey(key).length;
+    if (length !== 32) {
+      problems.push(`encryption.keys["${keyId}"] must be 32 bytes long, found ${length}`);
+    }
+  });
+  return problems;
+}
+
+/**
+ * Collects the models of the settings: the ones of `models` followed by the ones of `modelsPath`.
+ *
+ * @param settings - The manager settings
+ */
+export function getModelSettingsSources(settings: SequelizeManagerSettings): ModelSettingsSource[] {
+  const models: ModelSettingsSource[] = (settings.models || []).map((m, i) => ({
+    source: `models[${i}]`,
+    settings: m,
+  }));
+  const discovered: DiscoveredModel[] = settings.modelsPath ? discoverModels(settings.modelsPath) : [];
+  return models.concat(discovered.map(({ file, settings: m }) => ({ source: file, settings: m })));
+}
+
+/**
+ * Validates the configuration of a manager without throwing, e.g. in CI.
+ * The same checks are made when a SequelizeManager is constructed.
+ *
+ * @param settings - The manager settings
+ *
+ * @returns Whether the settings are valid and the list of problems
+ *
+ * @example
+ * ```typescript
+ * const { valid, problems } = validateSettings(config);
+ * if (!valid) {
+ *   console.error(problems.join('\n'));
+ *   process.exit(1);
+ * }
+ * ```
+ */
+export function validateSettings(settings: SequelizeManagerSettings): SettingsValidationResult {
+  const problems = getOptionsProblems(settings.options);
+  try {
+    const models = getModelSettingsSources(settings);
+    problems.push(...getModelsProblems(models, settings.options?.dialect));
+    problems.push(...getEncryptionProblems(settings.encryption, models));
+  } catch (e) {
+    problems.push(`modelsPath could not be loaded: ${e instanceof Error ? e.message : e}`);
+  }
+  return { valid: !problems.length, problems };
+}
@@ -0,0 +1,72 @@
+import { InvalidManagerConfigError } from '@storehouse/core';
+import { expect } from 'chai';
+import { Options } from 'sequelize';
+import { SequelizeManager } from '../../src/index';
+import { movieSettings } from './movieClass';
+import { userSettings } from './userClass';
+
+describe('associations', function () {
+  const { params } = this.ctx.kaukau;
+
+  const options: Options = {
+    dialect: params('db.dialect'),
+    host: params('db.host'),
+    port: params('db.port') == 0 ? undefined : params('db.port'),
+    database: params('db.database'),
+    username: params('db.username'),
+    password: params('db.password'),
+    logging: false
+  };
+
+  it('should apply declared associations once every model is initialized', async () => {
+    let associateCalled = false;
+    const manager = new SequelizeManager({
+      name: 'associations',
+      config: {
+        options,
+        models: [
+          {
+            ...userSettings,
+            associations: [
+              { type: 'hasMany', target: 'movies', options: { foreignKey: 'userId', as: 'movies' } }
+            ]
+          },
+          {
+            ...movieSettings,
+            associations: [
+              { type: 'belongsTo', target: 'users', options: { foreignKey: 'userId', as: 'user' } }
+            ],
+            associate(models) {
+              associateCalled = !!models.users && !!models.movies;
+            }
+          }
+        ]
+      }
+    });
+
+    try {
+      expect(manager.getModel('users').associations).to.have.property('movies');
+      expect(manager.getModel('movies').associations).to.have.property('user');
+      expect(associateCalled).to.equal(true);
+    } finally {
+      await manager.closeConnection();
+    }
+  });
+
+  it('should throw when an association targets an unknown model', () => {
+    expect(() => new SequelizeManager({
+      name: 'associations',
+      config: {
+        options,
+        models: [
+          {
+            ...userSettings,
+            associations: [
+              { type: 'hasMany', target: 'posts' }
+            ]
+          }
+        ]
+      }
+    })).to.throw(InvalidManagerConfigError, '"posts"');
+  });
+});
@@ -0,0 +1,127 @@
+import { InvalidManagerConfigError } from '@storehouse/core';
+import { expect } from 'chai';
+import { DataTypes } from 'sequelize';
+import { SequelizeManager, runWithContext } from '../../src/index';
+
+describe('audit', function () {
+  const { logger, params } = this.ctx.kaukau;
+
+  let manager: SequelizeManager;
+
+  before(async () => {
+    manager = new SequelizeManager({
+      name: 'audit',
+      config: {
+        options: {
+          dialect: params('db.dialect'),
+          host: params('db.host'),
+          port: params('db.port') == 0 ? undefined : params('db.port'),
+          database: params('db.database'),
+          username: params('db.username'),
+          password: params('db.password'),
+          logging: false
+        },
+        audit: { tableName: 'test_audit_log' },
+        models: [
+          {
+            attributes: {
+              id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+              name: { type: DataTypes.STRING, allowNull: false },
+              password: { type: DataTypes.STRING }
+            },
+            options: { modelName: 'test_audit_users', timestamps: false },
+            audit: { exclude: ['password'] }
+          },
+          {
+            attributes: {
+              userId: { type: DataTypes.INTEGER, primaryKey: true },
+              roleId: { type: DataTypes.INTEGER, primaryKey: true },
+              level: { type: DataTypes.INTEGER }
+            },
+            options: { modelName: 'test_audit_roles', timestamps: false },
+            audit: true
+          }
+        ]
+      }
+    });
+    await manager.sync({ force: true });
+  });
+
+  after(async () => {
+    await manager.drop();
+    await manager.closeConnection();
+    logger.info('closed connection');
+  });
+
+  it('should record creations, updates and deletions with the actor of the context', async () => {
+    const Users = manager.getModel('test_audit_users');
+    const user = await runWithContext({ userId: 7 }, () => Users.create({ name: 'Ada', password: 'secret' }));
+    await runWithContext({ userId: 8 }, () => user.update({ name: 'Ada Lovelace', password: 'other' }));
+    await user.update({ password: 'only' });
+    await user.destroy();
+
+    const history = await manager.getAuditHistory('test_audit_users', user.get('id'));
+    expect(history.map((e) => [e.operation, e.actor])).to.deep.equal([
+      ['create', '7'],
+      ['update', '8'],
+      ['delete', null]
+    ]);
+    expect(history[0].changes).to.deep.equal({
+      id: { before: null, after: user.get('id') },
+      name: { before: null, after: 'Ada' }
+    });
+    expect(history[1].changes).to.deep.equal({ name: { before: 'Ada', after: 'Ada Lovelace' } });
+    expect(history[2].changes.name).to.deep.equal({ before: 'Ada Lovelace', after: null });
+    expect(history[2]).to.include({ model: 'test_audit_users', entityId: String(user.get('id')) });
+  });
+
+  it('should record bulk operations per entity', async () => {
+    const Users = manager.getModel('test_audit_users');
+    const [a, b] = await Users.bulkCreate([{ name: 'A' }, { name: 'B' }]);
+    await Users.update({ name: 'C' }, { where: { name: 'A' } });
+    await Users.destroy({ where: {} });
+
+    const historyA = await manager.getAuditHistory('test_audit_users', a.get('id'));
+    expect(historyA.map((e) => e.operation)).to.deep.equal(['create', 'update', 'delete']);
+    expect(historyA[1].changes).to.deep.equal({ name: { before: 'A', after: 'C' } });
+
+    const historyB = await manager.getAuditHistory('test_audit_users', b.get('id'), { order: 'DESC', limit: 1 });
+    expect(historyB.map((e) => e.operation)).to.deep.equal(['delete']);
+  });
+
+  it('should identify entities with a composite primary key', async () => {
+    const Roles = manager.getModel('test_audit_roles');
+    const role = await Roles.create({ userId: 1, roleId: 2, level: 1 });
+    await role.update({ level: 2 });
+
+    const history = await manager.getAuditHistory('test_audit_roles', { roleId: 2, userId: 1 }, { operations: ['update'] });
+    expect(history).to.have.lengthOf(1);
+    expect(history[0].entityId).to.equal(JSON.stringify({ userId: 1, roleId: 2 }));
+    expect(history[0].changes).to.deep.equal({ level: { before: 1, after: 2 } });
+  });
+
+  it('should record changes in the transaction of the change', async () => {
+    const Users = manager.getModel('test_audit_users');
+    const transaction = await manager.transaction();
+    const user = await Users.create({ name: 'Rolled back' }, { transaction });
+    expect(await manager.getAuditHistory('test_audit_users', user.get('id'), { transaction })).to.have.lengthOf(1);
+    await transaction.rollback();
+
+    expect(await manager.getAuditHistory('test_audit_users', user.get('id'))).to.have.lengthOf(0);
+  });
+
+  it('should throw when no model is audited', async () => {
+    const other = new SequelizeManager({
+      name: 'audit-none',
+      config: { options: { dialect: params('db.dialect'), logging: false } }
+    });
+    try {
+      await other.getAuditHistory('test_audit_users', 1);
+      expect.fail('should have thrown');
+    } catch (e) {
+      expect(e).to.be.instanceOf(InvalidManagerConfigError);
+    } finally {
+      await other.closeConnection();
+    }
+  });
+});
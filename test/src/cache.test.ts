@@ -0,0 +1,185 @@
+import { expect } from 'chai';
+import { DataTypes, EmptyResultError, Op, literal } from 'sequelize';
+import { MemoryCacheStore, SequelizeManager } from '../../src/index';
+
+describe('cache', function () {
+  const { logger, params } = this.ctx.kaukau;
+
+  let manager: SequelizeManager;
+  const queries: string[] = [];
+
+  before(async () => {
+    manager = new SequelizeManager({
+      name: 'cache',
+      config: {
+        options: {
+          dialect: params('db.dialect'),
+          host: params('db.host'),
+          port: params('db.port') == 0 ? undefined : params('db.port'),
+          database: params('db.database'),
+          username: params('db.username'),
+          password: params('db.password'),
+          logging: (sql) => queries.push(sql)
+        },
+        cache: { ttl: 60000 },
+        models: [
+          {
+            attributes: {
+              code: { type: DataTypes.STRING(3), primaryKey: true },
+              name: { type: DataTypes.STRING, allowNull: false }
+            },
+            options: { modelName: 'test_cached_countries', timestamps: false },
+            cache: true
+          },
+          {
+            attributes: {
+              id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+              label: { type: DataTypes.STRING }
+            },
+            options: { modelName: 'test_uncached_notes', timestamps: false }
+          }
+        ]
+      }
+    });
+    await manager.sync({ force: true });
+    await manager.getModel('test_cached_countries').bulkCreate([
+      { code: 'FRA', name: 'France' },
+      { code: 'KEN', name: 'Kenya' }
+    ]);
+  });
+
+  beforeEach(async () => {
+    await manager.clearCache();
+    manager.resetCacheStats();
+    queries.length = 0;
+  });
+
+  after(async () => {
+    await manager.drop();
+    await manager.closeConnection();
+    logger.info('closed connection');
+  });
+
+  it('should answer repeated queries from the cache', async () => {
+    const Countries = manager.getModel('test_cached_countries');
+    for (let i = 0; i < 2; i++) {
+      expect((await Countries.findByPk('FRA'))?.get('name')).to.equal('France');
+      expect((await Countries.findOne({ where: { name: 'Kenya' } }))?.get('code')).to.equal('KEN');
+      expect(await Countries.findAll({ where: { code: { [Op.in]: ['FRA', 'KEN'] } }, order: [['code', 'ASC']] })).to.have.lengthOf(2);
+      expect(await Countries.findAll({ raw: true, where: { code: 'KEN' } })).to.deep.equal([{ code: 'KEN', name: 'Kenya' }]);
+      expect(await Countries.count()).to.equal(2);
+      expect(await Countries.findByPk('XXX')).to.equal(null);
+    }
+
+    expect(queries).to.have.lengthOf(6);
+    expect(manager.getCacheStats()).to.deep.equal({
+      hits: 6,
+      misses: 6,
+      hitRate: 0.5,
+      models: { test_cached_countries: { hits: 6, misses: 6 } }
+    });
+  });
+
+  it('should key the entries on the replacements and bind parameters', async () => {
+    const Countries = manager.getModel('test_cached_countries');
+    const where = literal('code = :code');
+    for (const code of ['FRA', 'KEN', 'FRA']) {
+      expect((await Countries.findOne({ where, replacements: { code } }))?.get('code')).to.equal(code);
+    }
+    const bound = literal('code = $code');
+    for (const code of ['FRA', 'KEN']) {
+      expect((await Countries.findAll({ where: bound, bind: { code } }))[0]?.get('code')).to.equal(code);
+    }
+    expect(manager.getCacheStats()?.hits).to.equal(1);
+  });
+
+  it('should not cache queries rejecting empty results or running afterFind hooks', async () => {
+    const Countries = manager.getModel('test_cached_countries');
+    expect(await Countries.findByPk('XXX')).to.equal(null);
+    for (let i = 0; i < 2; i++) {
+      try {
+        await Countries.findByPk('XXX', { rejectOnEmpty: true });
+        expect.fail('should have thrown');
+      } catch (e) {
+        expect(e).to.be.instanceOf(EmptyResultError);
+      }
+    }
+
+    const found: unknown[] = [];
+    Countries.addHook('afterFind', 'test', (result) => {
+      found.push(result);
+    });
+    try {
+      await Countries.findByPk('FRA');
+      await Countries.findByPk('FRA');
+    } finally {
+      Countries.removeHook('afterFind', 'test');
+    }
+    expect(found).to.have.lengthOf(2);
+    expect(manager.getCacheStats()).to.include({ hits: 0, misses: 1 });
+  });
+
+  it('should return instances that can be saved', async () => {
+    const Countries = manager.getModel('test_cached_countries');
+    await Countries.findByPk('KEN');
+    const country = await Countries.findByPk('KEN');
+    expect(country?.isNewRecord).to.equal(false);
+
+    country?.set('name', 'Kenya');
+    expect(country?.changed()).to.equal(false);
+  });
+
+  it('should invalidate the entries when the model changes', async () => {
+    const Countries = manager.getModel('test_cached_countries');
+    expect(await Countries.count()).to.equal(2);
+
+    await Countries.create({ code: 'JPN', name: 'Japan' });
+    expect(await Countries.count()).to.equal(3);
+
+    await Countries.update({ name: 'Nippon' }, { where: { code: 'JPN' } });
+    expect((await Countries.findByPk('JPN'))?.get('name')).to.equal('Nippon');
+
+    const japan = await Countries.findByPk('JPN');
+    await japan?.update({ name: 'Japan' });
+    expect((await Countries.findByPk('JPN'))?.get('name')).to.equal('Japan');
+
+    await Countries.destroy({ where: { code: 'JPN' } });
+    expect(await Countries.findByPk('JPN')).to.equal(null);
+    // only the second read of the updated row
+    expect(manager.getCacheStats()?.hits).to.equal(1);
+  });
+
+  it('should invalidate the entries again once a transaction commits', async () => {
+    const Countries = manager.getModel('test_cached_countries');
+    const transaction = await manager.transaction();
+    await Countries.create({ code: 'PER', name: 'Peru' }, { transaction });
+    // queries in a transaction are not cached
+    expect(await Countries.count({ transaction })).to.equal(3);
+    await transaction.commit();
+
+    expect(await Countries.count()).to.equal(3);
+    expect(manager.getCacheStats()?.misses).to.equal(1);
+  });
+
+  it('should not cache models without the cache option', async () => {
+    const Notes = manager.getModel('test_uncached_notes');
+    await Notes.findAll();
+    await Notes.findAll();
+    expect(queries).to.have.lengthOf(2);
+    expect(manager.getCacheStats()?.models).to.deep.equal({});
+  });
+
+  it('should evict the least recently used and expired entries', async () => {
+    const store = new MemoryCacheStore(2);
+    store.set('a', 1);
+    store.set('b', 2, 1);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    expect(store.get('b')).to.equal(undefined);
+    store.set('c', 3);
+    expect(store.get('a')).to.equal(1);
+    store.set('d', 4);
+    expect(store.get('c')).to.equal(undefined);
+    expect(store.get('a')).to.equal(1);
+    expect(store.get('d')).to.equal(4);
+  });
+});
@@ -0,0 +1,199 @@
+import { InvalidManagerConfigError } from '@storehouse/core';
+import { expect } from 'chai';
+import { DataTypes, Options } from 'sequelize';
+import { ModelChangeEvent, ModelSettings, SequelizeManager } from '../../src/index';
+
+describe('changes', function () {
+  const { logger, params } = this.ctx.kaukau;
+
+  const options: Options = {
+    dialect: params('db.dialect'),
+    host: params('db.host'),
+    port: params('db.port') == 0 ? undefined : params('db.port'),
+    database: params('db.database'),
+    username: params('db.username'),
+    password: params('db.password'),
+    logging: false
+  };
+  const products: ModelSettings = {
+    attributes: {
+      id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+      name: { type: DataTypes.STRING, allowNull: false },
+      price: { type: DataTypes.INTEGER }
+    },
+    options: { modelName: 'test_tracked_products', timestamps: false }
+  };
+  const logs: ModelSettings = {
+    attributes: {
+      id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+      message: { type: DataTypes.STRING }
+    },
+    options: { modelName: 'test_untracked_logs', timestamps: false }
+  };
+
+  let manager: SequelizeManager;
+  let outboxManager: SequelizeManager;
+  const events: ModelChangeEvent[] = [];
+
+  before(async () => {
+    manager = new SequelizeManager({
+      name: 'changes',
+      config: { options, models: [products, logs], changeEvents: { models: ['test_tracked_products'] } }
+    });
+    outboxManager = new SequelizeManager({
+      name: 'outbox',
+      config: { options, models: [products], changeEvents: { outbox: { batchSize: 2 } } }
+    });
+    for (const m of [manager, outboxManager]) {
+      m.on('created', (e) => events.push(e));
+      m.on('updated', (e) => events.push(e));
+      m.on('deleted', (e) => events.push(e));
+    }
+    await manager.sync({ force: true });
+    await outboxManager.sync({ force: true });
+  });
+
+  beforeEach(() => {
+    events.length = 0;
+  });
+
+  after(async () => {
+    await manager.drop();
+    await manager.closeConnection();
+    await outboxManager.drop();
+    await outboxManager.closeConnection();
+    logger.info('closed connections');
+  });
+
+  it('should emit the changes of the tracked models', async () => {
+    const Products = manager.getModel('test_tracked_products');
+    const product = await Products.create({ name: 'Pen', price: 2 });
+    await product.update({ price: 3 });
+    await product.update({ price: 3 });
+    await product.destroy();
+    await manager.getModel('test_untracked_logs').create({ message: 'ignored' });
+
+    const id = product.get('id');
+    expect(events.map(({ type, manager, model, primaryKey, changed }) => ({ type, manager, model, primaryKey, changed }))).to.deep.equal([
+      { type: 'created', manager: 'changes', model: 'test_tracked_products', primaryKey: id, changed: ['id', 'name', 'price'] },
+      { type: 'updated', manager: 'changes', model: 'test_tracked_products', primaryKey: id, changed: ['price'] },
+      { type: 'deleted', manager: 'changes', model: 'test_tracked_products', primaryKey: id, changed: [] }
+    ]);
+    expect(events[0].occurredAt).to.be.instanceOf(Date);
+  });
+
+  it('should emit the changes of a transaction once it commits', async () => {
+    const Products = manager.getModel('test_tracked_products');
+    await manager.transaction(async (transaction) => {
+      await Products.create({ name: 'Ink', price: 5 }, { transaction });
+      await Products.update({ price: 6 }, { where: { name: 'Ink' }, transaction });
+      expect(events).to.have.lengthOf(0);
+    });
+    expect(events.map((e) => e.type)).to.deep.equal(['created', 'updated']);
+  });
+
+  it('should drop the changes of a rolled back transaction', async () => {
+    const Products = manager.getModel('test_tracked_products');
+    const transaction = await manager.transaction();
+    await Products.create({ name: 'Eraser', price: 1 }, { transaction });
+    await transaction.rollback();
+    expect(events).to.have.lengthOf(0);
+  });
+
+  it('should drop the changes of a rolled back savepoint', async () => {
+    const Products = manager.getModel('test_tracked_products');
+    await manager.transaction(async (transaction) => {
+      await Products.create({ name: 'Ruler', price: 4 }, { transaction });
+      const savepoint = await manager.transaction({ transaction });
+      await Products.destroy({ where: { name: 'Ruler' }, transaction: savepoint });
+      await savepoint.rollback();
+      const released = await manager.transaction({ transaction });
+      await Products.update({ price: 5 }, { where: { name: 'Ruler' }, transaction: released });
+      await released.commit();
+      expect(events).to.have.lengthOf(0);
+    });
+    expect(events.map((e) => e.type)).to.deep.equal(['created', 'updated']);
+  });
+
+  it('should drop the changes of a transaction whose commit fails', async () => {
+    const failing = new SequelizeManager({
+      name: 'changes-commit',
+      config: { options, models: [products], changeEvents: true }
+    });
+    failing.on('created', (e) => events.push(e));
+    try {
+      await failing.sync({ force: true });
+      const queryInterface = failing.getQueryInterface();
+      queryInterface.commitTransaction = async () => {
+        throw new Error('commit failed');
+      };
+      let error: unknown;
+      try {
+        await failing.transaction(async (transaction) => {
+          await failing.getModel('test_tracked_products').create({ name: 'Stapler', price: 8 }, { transaction });
+        });
+      } catch (e) {
+        error = e;
+      }
+      expect((error as Error)?.message).to.equal('commit failed');
+      expect(events).to.have.lengthOf(0);
+    } finally {
+      await failing.closeConnection();
+    }
+  });
+
+  it('should emit one event per row of bulk changes', async () => {
+    const Products = manager.getModel('test_tracked_products');
+    await Products.bulkCreate([
+      { name: 'Clip', price: 1 },
+      { name: 'Pin', price: 1 }
+    ]);
+    await Products.destroy({ where: { price: 1 } });
+    expect(events.map((e) => e.type)).to.deep.equal(['created', 'created', 'deleted', 'deleted']);
+  });
+
+  it('should store the changes in the outbox until they are dispatched', async () => {
+    const Products = outboxManager.getModel('test_tracked_products');
+    const product = await Products.create({ name: 'Lamp', price: 20 });
+    const transaction = await outboxManager.transaction();
+    await product.update({ name: 'Desk lamp' }, { transaction });
+    await transaction.rollback();
+    await outboxManager.transaction(async (transaction) => {
+      await product.update({ price: 25 }, { transaction });
+      await product.destroy({ transaction });
+    });
+    expect(events).to.have.lengthOf(0);
+
+    expect(await outboxManager.dispatchOutbox()).to.equal(2);
+    expect(await outboxManager.dispatchOutbox()).to.equal(1);
+    expect(await outboxManager.dispatchOutbox()).to.equal(0);
+    expect(events.map((e) => [e.manager, e.type, e.changed])).to.deep.equal([
+      ['outbox', 'created', ['id', 'name', 'price']],
+      ['outbox', 'updated', ['price']],
+      ['outbox', 'deleted', []]
+    ]);
+    expect(events[0].occurredAt).to.be.instanceOf(Date);
+  });
+
+  it('should keep the outbox events whose listener failed', async () => {
+    await outboxManager.getModel('test_tracked_products').create({ name: 'Chair', price: 40 });
+    const fail = () => {
+      throw new Error('unavailable');
+    };
+    outboxManager.once('created', fail);
+    try {
+      await outboxManager.dispatchOutbox();
+      expect.fail('should have thrown');
+    } catch (e) {
+      expect((e as Error).message).to.equal('unavailable');
+    }
+    expect(await outboxManager.dispatchOutbox()).to.equal(1);
+
+    try {
+      await manager.dispatchOutbox();
+      expect.fail('should have thrown');
+    } catch (e) {
+      expect(e).to.be.instanceOf(InvalidManagerConfigError);
+    }
+  });
+});
@@ -0,0 +1,84 @@
+import { ConnectionError, Storehouse } from '@storehouse/core';
+import { expect } from 'chai';
+import { Options } from 'sequelize';
+import { SequelizeManager, SequelizeManagerArg, getReadyConnection, getReadyManager } from '../../src/index';
+
+class FlakyManager extends SequelizeManager {
+  failures = 0;
+  attempts = 0;
+
+  constructor(settings: SequelizeManagerArg, failures: number) {
+    super(settings);
+    this.failures = failures;
+  }
+
+  async authenticate(): Promise<void> {
+    this.attempts++;
+    if (this.attempts <= this.failures) {
+      throw new Error('database is starting up');
+    }
+    await super.authenticate();
+  }
+}
+
+describe('connect', function () {
+  const { logger, params } = this.ctx.kaukau;
+
+  const options: Options = {
+    dialect: params('db.dialect'),
+    host: params('db.host'),
+    port: params('db.port') == 0 ? undefined : params('db.port'),
+    database: params('db.database'),
+    username: params('db.username'),
+    password: params('db.password'),
+    logging: false
+  };
+
+  it('should retry until the database is reachable', async () => {
+    const manager = new FlakyManager({ name: 'flaky', config: { options, connect: { retries: 3, initialDelay: 1 } } }, 2);
+    try {
+      expect(manager.isReady()).to.equal(false);
+      const [a, b] = await Promise.all([manager.connect(), manager.ready()]);
+      expect(a).to.equal(manager);
+      expect(b).to.equal(manager);
+      expect(manager.attempts).to.equal(3);
+      expect(manager.isReady()).to.equal(true);
+    } finally {
+      await manager.closeConnection();
+    }
+  });
+
+  it('should fail after the last retry', async () => {
+    const manager = new FlakyManager({ name: 'flaky', config: { options, connect: { retries: 1, initialDelay: 1 } } }, 5);
+    try {
+      let error: unknown;
+      try {
+        await manager.connect();
+      } catch (e) {
+        error = e;
+      }
+      expect(error).to.be.instanceOf(ConnectionError);
+      expect(manager.attempts).to.equal(2);
+      expect(manager.isReady()).to.equal(false);
+    } finally {
+      await manager.closeConnection();
+    }
+  });
+
+  it('should wait for readiness from the registry', async () => {
+    Storehouse.add({
+      ready: {
+        type: SequelizeManager,
+        config: { options }
+      }
+    });
+    try {
+      const manager = await getReadyManager(Storehouse, 'ready');
+      expect(manager.isReady()).to.equal(true);
+      expect(await getReadyConnection(Storehouse, 'ready')).to.equal(manager);
+    } finally {
+      await Storehouse.destroy();
+      logger.info('closed connections');
+    }
+  });
+});
@@ -0,0 +1,79 @@
+import { expect } from 'chai';
+import { DataTypes } from 'sequelize';
+import { QueryContext, SequelizeManager, getContext } from '../../src/index';
+
+describe('context', function () {
+  const { logger, params } = this.ctx.kaukau;
+
+  let manager: SequelizeManager;
+  const logged: [string, QueryContext | undefined][] = [];
+  const hooked: (QueryContext | undefined)[] = [];
+
+  before(async () => {
+    manager = new SequelizeManager({
+      name: 'context',
+      config: {
+        options: {
+          dialect: params('db.dialect'),
+          host: params('db.host'),
+          port: params('db.port') == 0 ? undefined : params('db.port'),
+          database: params('db.database'),
+          username: params('db.username'),
+          password: params('db.password'),
+          logging: (sql) => logged.push([sql, getContext()])
+        },
+        models: [
+          {
+            attributes: {
+              id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+              label: { type: DataTypes.STRING, allowNull: false }
+            },
+            options: {
+              modelName: 'test_genres',
+              timestamps: false,
+              hooks: {
+                beforeCreate: () => {
+                  hooked.push(manager.getContext());
+                }
+              }
+            }
+          }
+        ],
+        instrumentation: {
+          enabled: true,
+          slowQueryThreshold: 0
+        }
+      }
+    });
+    await manager.sync({ force: true });
+    manager.resetMetrics();
+  });
+
+  after(async () => {
+    await manager.drop();
+    await manager.closeConnection();
+    logger.info('closed connection');
+  });
+
+  it('should carry the context to logs, slow queries and hooks', async () => {
+    const Genres = manager.getModel('test_genres');
+    await manager.runWithContext({ requestId: 'req-1', userId: 7 }, async () => {
+      await Genres.create({ label: 'Drama' });
+    });
+
+    expect(hooked).to.deep.equal([{ requestId: 'req-1', userId: 7 }]);
+    expect(logged.find(([sql]) => sql.includes('INSERT'))?.[1]).to.deep.equal({ requestId: 'req-1', userId: 7 });
+    expect(manager.getMetrics()?.slowQueries[0].context).to.deep.equal({ requestId: 'req-1', userId: 7 });
+  });
+
+  it('should merge nested contexts and clear them outside of the scope', async () => {
+    const inner = await manager.runWithContext({ requestId: 'req-2' }, () =>
+      manager.runWithContext({ userId: 'u-1' }, async () => {
+        await Promise.resolve();
+        return manager.getContext();
+      })
+    );
+    expect(inner).to.deep.equal({ requestId: 'req-2', userId: 'u-1' });
+    expect(manager.getContext()).to.equal(undefined);
+  });
+});
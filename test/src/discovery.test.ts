@@ -0,0 +1,69 @@
+import { InvalidManagerConfigError } from '@storehouse/core';
+import { expect } from 'chai';
+import { DataTypes, Options } from 'sequelize';
+import { SequelizeManager, findModuleFiles } from '../../src/index';
+import { Tag } from './models/tag.model';
+
+describe('discovery', function () {
+  const { logger, params } = this.ctx.kaukau;
+
+  let options: Options;
+  let manager: SequelizeManager;
+
+  before(async () => {
+    options = {
+      dialect: params('db.dialect'),
+      host: params('db.host'),
+      port: params('db.port') == 0 ? undefined : params('db.port'),
+      database: params('db.database'),
+      username: params('db.username'),
+      password: params('db.password'),
+      logging: false
+    };
+    manager = new SequelizeManager({
+      name: 'discovery',
+      config: { options, modelsPath: 'test/src/models' }
+    });
+  });
+
+  after(async () => {
+    await manager.drop();
+    await manager.closeConnection();
+    logger.info('closed connection');
+  });
+
+  it('should list the module files of a directory or glob', () => {
+    const directory = findModuleFiles('test/src/models');
+    expect(directory.map((f) => f.split(/[\\/]/).pop())).to.deep.equal(['genre.model.ts', 'tag.model.ts']);
+    expect(findModuleFiles('test/src/**/*.model.ts')).to.deep.equal(directory);
+    expect(findModuleFiles('test/src/models/t?g.*')).to.deep.equal([directory[1]]);
+  });
+
+  it('should register settings and model classes exported by the modules', async () => {
+    expect(manager.getModel('test_discovered_genres')).to.equal(manager.model('test_discovered_genres'));
+    expect(manager.getModel('test_discovered_tags')).to.equal(Tag);
+
+    await manager.sync({ force: true });
+    await Tag.create({ label: 'classic' });
+    expect(await manager.getModel('test_discovered_tags').count()).to.equal(1);
+  });
+
+  it('should report duplicate model names', () => {
+    expect(
+      () =>
+        new SequelizeManager({
+          name: 'discovery-duplicates',
+          config: {
+            options,
+            models: [
+              {
+                attributes: { label: { type: DataTypes.STRING } },
+                options: { modelName: 'test_discovered_genres' }
+              }
+            ],
+            modelsPath: ['test/src/models', 'test/src/**/tag.model.ts']
+          }
+        })
+    ).to.throw(InvalidManagerConfigError, /model "test_discovered_genres" is defined more than once \(models\[0\], .*genre\.model\.ts\)/);
+  });
+});
@@ -0,0 +1,166 @@
+import { InvalidManagerConfigError } from '@storehouse/core';
+import { expect } from 'chai';
+import { randomBytes } from 'node:crypto';
+import { DataTypes, Op, Options, QueryTypes } from 'sequelize';
+import { EncryptionError, EncryptionSettings, FieldEncryptor, ModelSettings, SequelizeManager, validateSettings } from '../../src/index';
+
+describe('encryption', function () {
+  const { logger, params } = this.ctx.kaukau;
+
+  const keys = { k1: randomBytes(32).toString('base64'), k2: randomBytes(32), k12: randomBytes(32), k_2: randomBytes(32) };
+  const options: Options = {
+    dialect: params('db.dialect'),
+    host: params('db.host'),
+    port: params('db.port') == 0 ? undefined : params('db.port'),
+    database: params('db.database'),
+    username: params('db.username'),
+    password: params('db.password'),
+    logging: false
+  };
+  const customers: ModelSettings = {
+    attributes: {
+      id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+      email: { type: DataTypes.STRING(512) },
+      ssn: DataTypes.TEXT
+    },
+    options: { modelName: 'test_encrypted_customers', timestamps: false },
+    encrypted: { email: { deterministic: true }, ssn: true }
+  };
+
+  const encryption: EncryptionSettings = { keys, currentKeyId: 'k1', batchSize: 2 };
+
+  let manager: SequelizeManager;
+
+  before(async () => {
+    manager = new SequelizeManager({
+      name: 'encryption',
+      config: { options, models: [customers], encryption }
+    });
+    await manager.sync({ force: true });
+  });
+
+  after(async () => {
+    await manager.drop();
+    await manager.closeConnection();
+    logger.info('closed connection');
+  });
+
+  async function selectRaw(): Promise<{ id: number; email: string; ssn: string }[]> {
+    return manager.query('SELECT id, email, ssn FROM test_encrypted_customers ORDER BY id', { type: QueryTypes.SELECT });
+  }
+
+  it('should encrypt on write and decrypt on read', async () => {
+    const Customers = manager.getModel('test_encrypted_customers');
+    const customer = await Customers.create({ email: 'ada@example.com', ssn: '123-45-6789' });
+    expect(customer.get('email')).to.equal('ada@example.com');
+
+    const [row] = await selectRaw();
+    expect(row.email).to.match(/^enc:v1:k1:/);
+    expect(row.ssn).to.match(/^enc:v1:k1:/);
+    expect(row.email).to.not.include('ada');
+
+    const found = await Customers.findByPk(customer.get('id') as number);
+    expect(found?.toJSON()).to.deep.include({ email: 'ada@example.com', ssn: '123-45-6789' });
+  });
+
+  it('should find deterministic attributes by equality', async () => {
+    const Customers = manager.getModel('test_encrypted_customers');
+    await Customers.create({ email: 'grace@example.com', ssn: '987-65-4321' });
+
+    expect((await Customers.findOne({ where: { email: 'grace@example.com' } }))?.get('ssn')).to.equal('987-65-4321');
+    expect(await Customers.count({ where: { email: { [Op.in]: ['ada@example.com', 'grace@example.com'] } } })).to.equal(2);
+    expect(await Customers.count({ where: { [Op.or]: [{ email: { [Op.ne]: 'ada@example.com' } }] } })).to.equal(1);
+  });
+
+  it('should encrypt the values of bulk updates', async () => {
+    const Customers = manager.getModel('test_encrypted_customers');
+    await Customers.update({ ssn: '000-00-0000' }, { where: { email: 'grace@example.com' } });
+
+    const [, row] = await selectRaw();
+    expect(row.ssn).to.match(/^enc:v1:k1:/);
+    expect((await Customers.findOne({ where: { email: 'grace@example.com' } }))?.get('ssn')).to.equal('000-00-0000');
+  });
+
+  it('should re-encrypt rows in batches with the current key', async () => {
+    const Customers = manager.getModel('test_encrypted_customers');
+    await manager.query("INSERT INTO test_encrypted_customers (email, ssn) VALUES ('legacy@example.com', '555-55-5555')");
+
+    encryption.currentKeyId = 'k2';
+    expect(await manager.rotateEncryptionKeys()).to.deep.equal({ test_encrypted_customers: 3 });
+    expect(await manager.rotateEncryptionKeys()).to.deep.equal({ test_encrypted_customers: 0 });
+    const rows = await selectRaw();
+    rows.forEach((row) => expect(row.email).to.match(/^enc:v1:k2:/));
+    rows.forEach((row) => expect(row.ssn).to.match(/^enc:v1:k2:/));
+
+    expect((await Customers.findOne({ where: { email: 'legacy@example.com' } }))?.get('ssn')).to.equal('555-55-5555');
+    expect((await Customers.findOne({ where: { email: 'ada@example.com' } }))?.get('ssn')).to.equal('123-45-6789');
+  });
+
+  it('should re-encrypt values stored before their attribute was encrypted', async () => {
+    const Customers = manager.getModel('test_encrypted_customers');
+    await manager.query("INSERT INTO test_encrypted_customers (email, ssn) VALUES ('plain@example.com', '111-11-1111')");
+    expect((await Customers.findOne({ where: { email: 'plain@example.com' } }))?.get('ssn')).to.equal('111-11-1111');
+
+    expect(await manager.rotateEncryptionKeys({ models: ['test_encrypted_customers'] })).to.deep.equal({
+      test_encrypted_customers: 1
+    });
+    const rows = await selectRaw();
+    rows.forEach((row) => expect(row.ssn).to.match(/^enc:v1:k2:/));
+    expect((await Customers.findOne({ where: { email: 'plain@example.com' } }))?.get('ssn')).to.equal('111-11-1111');
+  });
+
+  it('should match key IDs literally when rotating', async () => {
+    const Customers = manager.getModel('test_encrypted_customers');
+    encryption.currentKeyId = 'k12';
+    expect(await manager.rotateEncryptionKeys()).to.deep.equal({ test_encrypted_customers: 4 });
+
+    // "k_2" as a LIKE pattern would match "k12"
+    encryption.currentKeyId = 'k_2';
+    expect(await manager.rotateEncryptionKeys()).to.deep.equal({ test_encrypted_customers: 4 });
+    const rows = await selectRaw();
+    rows.forEach((row) => expect(row.ssn).to.match(/^enc:v1:k_2:/));
+    expect((await Customers.findOne({ where: { email: 'ada@example.com' } }))?.get('ssn')).to.equal('123-45-6789');
+  });
+
+  it('should reject tampered values', () => {
+    const encryptor = new FieldEncryptor({ keys, currentKeyId: 'k1' });
+    const value = encryptor.encrypt('secret');
+    expect(encryptor.decrypt(value)).to.equal('secret');
+    expect(encryptor.encrypt('secret', true)).to.equal(encryptor.encrypt('secret', true));
+    expect(encryptor.encrypt('secret')).to.not.equal(value);
+
+    const tampered = value.slice(0, -2) + (value.endsWith('A=') ? 'B=' : 'A=');
+    expect(() => encryptor.decrypt(tampered)).to.throw(EncryptionError);
+    expect(() => new FieldEncryptor({ keys: { k3: keys.k2 }, currentKeyId: 'k3' }).decrypt(value)).to.throw(
+      EncryptionError,
+      'unknown key "k1"'
+    );
+  });
+
+  it('should validate the encryption settings', async () => {
+    expect(
+      validateSettings({
+        options: { dialect: 'sqlite' },
+        models: [{ ...customers, encrypted: { email: true, id: true, missing: true } }]
+      }).problems
+    ).to.deep.equal([
+      'models[0] ("test_encrypted_customers"): encrypted attribute "id" must be a STRING or TEXT, found INTEGER',
+      'models[0] ("test_encrypted_customers"): encrypted attribute "missing" is not defined',
+      'models[0]: encrypted attributes require the encryption setting'
+    ]);
+    expect(
+      validateSettings({ options: { dialect: 'sqlite' }, encryption: { keys: { 'a:b': 'c2hvcnQ=' }, currentKeyId: 'k1' } })
+        .problems
+    ).to.deep.equal([
+      'encryption.currentKeyId "k1" is not one of encryption.keys',
+      'encryption.keys: key ID "a:b" cannot contain ":"',
+      'encryption.keys["a:b"] must be 32 bytes long, found 5'
+    ]);
+    try {
+      await manager.registerModel({ ...customers, options: { modelName: 'other' }, encrypted: { id: true } });
+      expect.fail('should have thrown');
+    } catch (e) {
+      expect(e).to.be.instanceOf(InvalidManagerConfigError);
+    }
+  });
+});
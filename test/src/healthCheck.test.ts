@@ -0,0 +1,60 @@
+import { expect } from 'chai';
+import { SequelizeManager } from '../../src/index';
+
+describe('health check', function () {
+  const { logger, params } = this.ctx.kaukau;
+
+  let manager: SequelizeManager;
+
+  const slowProbe = (ms: number) => () => new Promise((resolve) => setTimeout(resolve, ms));
+
+  before(() => {
+    manager = new SequelizeManager({
+      name: 'health',
+      config: {
+        options: {
+          dialect: params('db.dialect'),
+          host: params('db.host'),
+          port: params('db.port') == 0 ? undefined : params('db.port'),
+          database: params('db.database'),
+          username: params('db.username'),
+          password: params('db.password'),
+          logging: false
+        },
+        healthCheck: {
+          probe: 'SELECT 1'
+        }
+      }
+    });
+  });
+
+  after(async () => {
+    await manager.closeConnection();
+    logger.info('closed connection');
+  });
+
+  it('should report pool statistics with the configured probe', async () => {
+    const health = await manager.healthCheck();
+    expect(health.status).to.equal('healthy');
+    expect(health.details.pool).to.include.keys('size', 'available', 'inUse', 'waiting', 'max', 'min');
+  });
+
+  it('should be degraded above the latency threshold', async () => {
+    const health = await manager.healthCheck({ probe: slowProbe(50), latencyThreshold: 10 });
+    expect(health.healthy).to.equal(true);
+    expect(health.status).to.equal('degraded');
+  });
+
+  it('should be unhealthy after the timeout', async () => {
+    const health = await manager.healthCheck({ probe: slowProbe(500), timeout: 50 });
+    expect(health.healthy).to.equal(false);
+    expect(health.status).to.equal('unhealthy');
+    expect(health.latency).to.be.below(500);
+  });
+
+  it('should not fetch the database version when disabled', async () => {
+    const health = await manager.healthCheck({ databaseVersion: false });
+    expect(health.status).to.equal('healthy');
+    expect(health.details.databaseVersion).to.equal(undefined);
+  });
+});
@@ -0,0 +1,89 @@
+import { expect } from 'chai';
+import { DataTypes } from 'sequelize';
+import { SequelizeManager, toPrometheus } from '../../src/index';
+
+describe('metrics', function () {
+  const { logger, params } = this.ctx.kaukau;
+
+  let manager: SequelizeManager;
+
+  before(async () => {
+    manager = new SequelizeManager({
+      name: 'metrics',
+      config: {
+        options: {
+          dialect: params('db.dialect'),
+          host: params('db.host'),
+          port: params('db.port') == 0 ? undefined : params('db.port'),
+          database: params('db.database'),
+          username: params('db.username'),
+          password: params('db.password'),
+          logging: false
+        },
+        models: [
+          {
+            attributes: {
+              id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+              label: { type: DataTypes.STRING, allowNull: false }
+            },
+            options: { modelName: 'test_genres', timestamps: false }
+          }
+        ],
+        instrumentation: {
+          enabled: true,
+          slowQueryThreshold: 0,
+          slowQueryLimit: 2
+        }
+      }
+    });
+    await manager.sync({ force: true });
+    manager.resetMetrics();
+  });
+
+  after(async () => {
+    await manager.drop();
+    await manager.closeConnection();
+    logger.info('closed connection');
+  });
+
+  it('should record queries per model and operation', async () => {
+    const Genres = manager.getModel('test_genres');
+    await Genres.create({ label: 'Drama' });
+    await Genres.findAll();
+    await Genres.findAll();
+    try {
+      await manager.query('SELECT * FROM test_unknown_table');
+    } catch (_e) {
+      // expected
+    }
+
+    const metrics = manager.getMetrics();
+    expect(metrics?.manager).to.equal('metrics');
+
+    const select = metrics?.queries.find((q) => q.model === 'test_genres' && q.operation === 'select');
+    expect(select?.count).to.equal(2);
+    expect(select?.buckets[select.buckets.length - 1]).to.be.at.most(2);
+
+    const insert = metrics?.queries.find((q) => q.model === 'test_genres' && q.operation === 'insert');
+    expect(insert?.count).to.equal(1);
+
+    const raw = metrics?.queries.find((q) => q.model === '' && q.operation === 'raw');
+    expect(raw?.errors).to.equal(1);
+
+    expect(metrics?.slowQueryCount).to.equal(4);
+    expect(metrics?.slowQueries).to.have.length(2);
+    expect(metrics?.slowQueries[1].sql).to.contain('test_unknown_table');
+  });
+
+  it('should export metrics in Prometheus format', () => {
+    const text = toPrometheus(manager.getMetrics()!, { labels: { app: 'test' } });
+    expect(text).to.contain('# TYPE storehouse_sequelize_queries_total counter');
+    expect(text).to.contain(
+      'storehouse_sequelize_queries_total{app="test",manager="metrics",model="test_genres",operation="select"} 2'
+    );
+    expect(text).to.contain(
+      'storehouse_sequelize_query_duration_seconds_count{app="test",manager="metrics",model="test_genres",operation="select"} 2'
+    );
+    expect(text).to.contain('storehouse_sequelize_slow_queries_total{app="test",manager="metrics"} 4');
+  });
+});
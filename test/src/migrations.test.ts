@@ -0,0 +1,190 @@
+import { expect } from 'chai';
+import { DataTypes } from 'sequelize';
+import { Migration, MigrationError, MigrationLockError, SequelizeManager } from '../../src/index';
+
+describe('migrations', function () {
+  const { logger, params } = this.ctx.kaukau;
+
+  const migrations: Migration[] = [
+    {
+      name: '001-create-genres',
+      async up({ queryInterface, transaction }) {
+        await queryInterface.createTable(
+          'test_genres',
+          {
+            id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+            label: { type: DataTypes.STRING, allowNull: false }
+          },
+          { transaction }
+        );
+      },
+      async down({ queryInterface, transaction }) {
+        await queryInterface.dropTable('test_genres', { transaction });
+      }
+    },
+    {
+      name: '002-add-genre-slug',
+      async up({ queryInterface, transaction }) {
+        await queryInterface.addColumn('test_genres', 'slug', { type: DataTypes.STRING }, { transaction });
+      },
+      async down({ queryInterface, transaction }) {
+        await queryInterface.removeColumn('test_genres', 'slug', { transaction });
+      }
+    }
+  ];
+
+  let manager: SequelizeManager;
+
+  before(() => {
+    manager = new SequelizeManager({
+      name: 'migrations',
+      config: {
+        options: {
+          dialect: params('db.dialect'),
+          host: params('db.host'),
+          port: params('db.port') == 0 ? undefined : params('db.port'),
+          database: params('db.database'),
+          username: params('db.username'),
+          password: params('db.password'),
+          logging: false
+        },
+        migrations: {
+          source: migrations,
+          tableName: 'test_migrations',
+          lockTimeout: 200,
+          lockRetryInterval: 50
+        }
+      }
+    });
+  });
+
+  after(async () => {
+    const queryInterface = manager.getQueryInterface();
+    await queryInterface.dropTable('test_genres');
+    await queryInterface.dropTable('test_migrations');
+    await queryInterface.dropTable('test_migrations_lock');
+    await manager.closeConnection();
+    logger.info('closed connection');
+  });
+
+  it('should apply pending migrations', async () => {
+    expect(await manager.migrate()).to.deep.equal(['001-create-genres', '002-add-genre-slug']);
+    expect(await manager.migrate()).to.deep.equal([]);
+
+    const columns = await manager.getQueryInterface().describeTable('test_genres');
+    expect(columns).to.have.property('slug');
+
+    const status = await manager.migrationStatus();
+    expect(status.map((s) => s.applied)).to.deep.equal([true, true]);
+  });
+
+  it('should roll back the last migrations', async () => {
+    expect(await manager.rollback()).to.deep.equal(['002-add-genre-slug']);
+
+    const columns = await manager.getQueryInterface().describeTable('test_genres');
+    expect(columns).to.not.have.property('slug');
+
+    const status = await manager.migrationStatus();
+    expect(status.map((s) => s.applied)).to.deep.equal([true, false]);
+  });
+
+  it('should only roll back a positive number of migrations', async () => {
+    for (const steps of [0, -1, 1.5]) {
+      let error: unknown;
+      try {
+        await manager.rollback(steps);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).to.be.instanceOf(MigrationError);
+    }
+    expect((await manager.migrationStatus()).map((s) => s.applied)).to.deep.equal([true, false]);
+  });
+
+  it('should not migrate while the lock is held', async () => {
+    const queryInterface = manager.getQueryInterface();
+    await queryInterface.bulkInsert('test_migrations_lock', [{ id: 1, owner: 'other', lockedAt: new Date() }]);
+    try {
+      let error: unknown;
+      try {
+        await manager.migrate();
+      } catch (e) {
+        error = e;
+      }
+      expect(error).to.be.instanceOf(MigrationLockError);
+    } finally {
+      await queryInterface.bulkDelete('test_migrations_lock', { id: 1 });
+    }
+  });
+
+  it('should take over a stale lock', async () => {
+    const queryInterface = manager.getQueryInterface();
+    const lockedAt = new Date(Date.now() - 2 * 3600000);
+    await queryInterface.bulkInsert('test_migrations_lock', [{ id: 1, owner: 'crashed', lockedAt }]);
+    expect(await manager.migrate()).to.deep.equal(['002-add-genre-slug']);
+    expect(await queryInterface.select(null, 'test_migrations_lock')).to.have.lengthOf(0);
+  });
+
+  it('should release the lock', async () => {
+    const queryInterface = manager.getQueryInterface();
+    await queryInterface.bulkInsert('test_migrations_lock', [{ id: 1, owner: 'other', lockedAt: new Date() }]);
+    expect(await manager.releaseMigrationLock()).to.equal(true);
+    expect(await manager.releaseMigrationLock()).to.equal(false);
+    expect(await manager.migrate()).to.deep.equal([]);
+  });
+
+  it('should not apply a migration whose meta row could not be stored', async function () {
+    if (!['postgres', 'sqlite'].includes(params('db.dialect'))) {
+      this.skip();
+    }
+    const crashing = new SequelizeManager({
+      name: 'migrations-crash',
+      config: {
+        options: {
+          dialect: params('db.dialect'),
+          host: params('db.host'),
+          port: params('db.port') == 0 ? undefined : params('db.port'),
+          database: params('db.database'),
+          username: params('db.username'),
+          password: params('db.password'),
+          logging: false
+        },
+        migrations: {
+          source: [
+            {
+              name: '001-create-awards',
+              async up({ queryInterface, transaction }) {
+                await queryInterface.createTable('test_awards', { id: { type: DataTypes.INTEGER, primaryKey: true } }, { transaction });
+              }
+            }
+          ],
+          tableName: 'test_crash_migrations'
+        }
+      }
+    });
+    const queryInterface = crashing.getQueryInterface();
+    try {
+      const bulkInsert = queryInterface.bulkInsert.bind(queryInterface);
+      queryInterface.bulkInsert = async (table, ...args) => {
+        if (table === 'test_crash_migrations') {
+          throw new Error('crashed');
+        }
+        return bulkInsert(table, ...args);
+      };
+      let error: unknown;
+      try {
+        await crashing.migrate();
+      } catch (e) {
+        error = e;
+      }
+      expect((error as Error)?.message).to.equal('crashed');
+      expect(await queryInterface.showAllTables()).to.not.include('test_awards');
+      expect((await crashing.migrationStatus()).map((s) => s.applied)).to.deep.equal([false]);
+    } finally {
+      await queryInterface.dropTable('test_awards');
+      await queryInterface.dropTable('test_crash_migrations');
+      await queryInterface.dropTable('test_crash_migrations_lock');
+      await crashing.closeConnection();
+    }
+  });
+});
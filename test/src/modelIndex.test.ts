@@ -0,0 +1,75 @@
+import { Registry } from '@storehouse/core';
+import { expect } from 'chai';
+import { DataTypes, Options } from 'sequelize';
+import { AmbiguousModelError, ModelSettings, SequelizeManager, getModel, getModelIndex, listModels } from '../../src/index';
+
+describe('model index', function () {
+  const { params } = this.ctx.kaukau;
+
+  const options: Options = {
+    dialect: params('db.dialect'),
+    host: params('db.host'),
+    port: params('db.port') == 0 ? undefined : params('db.port'),
+    database: params('db.database'),
+    username: params('db.username'),
+    password: params('db.password'),
+    logging: false
+  };
+
+  const settings = (modelName: string, tableName?: string): ModelSettings => ({
+    attributes: { label: { type: DataTypes.STRING } },
+    options: { modelName, tableName }
+  });
+
+  let registry: Registry;
+  let primary: SequelizeManager;
+  let analytics: SequelizeManager;
+
+  beforeEach(() => {
+    registry = new Registry();
+    primary = new SequelizeManager({
+      name: 'primary',
+      config: { options, models: [settings('test_users'), settings('test_movies')] }
+    });
+    analytics = new SequelizeManager({
+      name: 'analytics',
+      config: { options, models: [settings('test_users', 'test_analytics_users'), settings('test_events')] }
+    });
+    registry.addManager('primary', primary);
+    registry.addManager('analytics', analytics);
+  });
+
+  afterEach(async () => {
+    await registry.closeAllConnections();
+  });
+
+  it('should list the models with their manager, dialect and table', () => {
+    expect(listModels(registry).map((m) => [m.qualifiedName, m.dialect, m.table])).to.deep.equal([
+      ['primary.test_users', options.dialect, 'test_users'],
+      ['primary.test_movies', options.dialect, 'test_movies'],
+      ['analytics.test_users', options.dialect, 'test_analytics_users'],
+      ['analytics.test_events', options.dialect, 'test_events']
+    ]);
+  });
+
+  it('should look up qualified and unique names across managers', () => {
+    expect(getModel(registry, 'analytics.test_users')).to.equal(analytics.getModel('test_users'));
+    expect(getModel(registry, 'test_events')).to.equal(analytics.getModel('test_events'));
+  });
+
+  it('should resolve ambiguous names to the default manager or throw', () => {
+    expect(getModel(registry, 'test_users')).to.equal(primary.getModel('test_users'));
+
+    getModelIndex(registry, { ambiguity: 'error' });
+    expect(() => getModel(registry, 'test_users')).to.throw(AmbiguousModelError, /"primary", "analytics"/);
+  });
+
+  it('should follow registered and removed models', async () => {
+    getModelIndex(registry).list();
+    await analytics.registerModel(settings('test_sessions'));
+    expect(getModel(registry, 'test_sessions')).to.equal(analytics.getModel('test_sessions'));
+
+    primary.unregisterModel('test_users');
+    expect(getModel(registry, 'test_users')).to.equal(analytics.getModel('test_users'));
+  });
+});
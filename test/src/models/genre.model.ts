@@ -0,0 +1,12 @@
+import { DataTypes } from 'sequelize';
+import { ModelSettings } from '../../../src';
+
+const genreSettings: ModelSettings = {
+  attributes: {
+    id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+    label: { type: DataTypes.STRING, allowNull: false }
+  },
+  options: { modelName: 'test_discovered_genres', timestamps: false }
+};
+
+export default genreSettings;
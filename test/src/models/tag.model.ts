@@ -0,0 +1,15 @@
+import { DataTypes, Model, ModelAttributes, ModelOptions } from 'sequelize';
+
+export class Tag extends Model {
+  declare id: number;
+  declare label: string;
+
+  static attributes: ModelAttributes<Tag> = {
+    id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+    label: { type: DataTypes.STRING, allowNull: false }
+  };
+
+  static modelOptions: ModelOptions<Tag> = { modelName: 'test_discovered_tags', timestamps: false };
+}
+
+export const TAG_MAX_LENGTH = 255;
@@ -0,0 +1,175 @@
+import { ModelNotFoundError } from '@storehouse/core';
+import { expect } from 'chai';
+import { DataTypes, Model } from 'sequelize';
+import { PaginationError, SequelizeManager, iterateBatches } from '../../src/index';
+
+describe('pagination', function () {
+  const { logger, params } = this.ctx.kaukau;
+
+  let manager: SequelizeManager;
+
+  before(async () => {
+    manager = new SequelizeManager({
+      name: 'pagination',
+      config: {
+        options: {
+          dialect: params('db.dialect'),
+          host: params('db.host'),
+          port: params('db.port') == 0 ? undefined : params('db.port'),
+          database: params('db.database'),
+          username: params('db.username'),
+          password: params('db.password'),
+          logging: false
+        },
+        models: [
+          {
+            attributes: {
+              id: { type: DataTypes.INTEGER, primaryKey: true },
+              category: { type: DataTypes.STRING, allowNull: false },
+              rank: { type: DataTypes.INTEGER, allowNull: false },
+              publishedAt: { type: DataTypes.DATE, allowNull: false }
+            },
+            options: { modelName: 'test_paged_articles', timestamps: false },
+            associations: [{ type: 'hasMany', target: 'test_paged_comments', options: { foreignKey: 'articleId', as: 'comments' } }]
+          },
+          {
+            attributes: {
+              articleId: { type: DataTypes.INTEGER, primaryKey: true },
+              position: { type: DataTypes.INTEGER, primaryKey: true },
+              text: { type: DataTypes.STRING }
+            },
+            options: { modelName: 'test_paged_comments', timestamps: false }
+          }
+        ]
+      }
+    });
+    await manager.sync({ force: true });
+    // ranks with ties, ids in another order
+    await manager.getModel('test_paged_articles').bulkCreate(
+      Array.from({ length: 10 }, (_, i) => ({
+        id: 10 - i,
+        category: i % 2 ? 'odd' : 'even',
+        rank: Math.floor(i / 3),
+        publishedAt: new Date(Date.UTC(2026, 0, 1 + (i % 4)))
+      }))
+    );
+    await manager.getModel('test_paged_comments').bulkCreate(
+      [1, 2, 3].flatMap((articleId) => [1, 2].map((position) => ({ articleId, position, text: `${articleId}.${position}` })))
+    );
+  });
+
+  after(async () => {
+    await manager.drop();
+    await manager.closeConnection();
+    logger.info('closed connection');
+  });
+
+  function ids(rows: Model[]): unknown[] {
+    return rows.map((row) => row.get('id'));
+  }
+
+  it('should iterate over the rows in batches of the primary key order', async () => {
+    const batches: unknown[][] = [];
+    for await (const batch of manager.iterateBatches('test_paged_articles', { batchSize: 4 })) {
+      batches.push(ids(batch));
+    }
+    expect(batches).to.deep.equal([
+      [1, 2, 3, 4],
+      [5, 6, 7, 8],
+      [9, 10]
+    ]);
+  });
+
+  it('should iterate in the order of the sort keys with ties and a where clause', async () => {
+    const rows: unknown[] = [];
+    for await (const batch of manager.iterateBatches('test_paged_articles', {
+      where: { category: 'even' },
+      order: [['rank', 'DESC']],
+      batchSize: 2
+    })) {
+      expect(batch.length).to.be.at.most(2);
+      rows.push(...ids(batch));
+    }
+    // ranks 2, 2, 1, 0, 0 with the ties in descending id order
+    expect(rows).to.deep.equal([4, 2, 6, 10, 8]);
+  });
+
+  it('should iterate over composite primary keys with includes', async () => {
+    const Comments = manager.getModel('test_paged_comments');
+    const keys: string[] = [];
+    for await (const batch of iterateBatches(Comments, { batchSize: 4 })) {
+      keys.push(...batch.map((row) => `${row.get('articleId')}.${row.get('position')}`));
+    }
+    expect(keys).to.deep.equal(['1.1', '1.2', '2.1', '2.2', '3.1', '3.2']);
+
+    const counts: number[] = [];
+    for await (const batch of manager.iterateBatches('test_paged_articles', {
+      include: [{ association: 'comments' }],
+      where: { id: [1, 2, 3, 4] },
+      batchSize: 2
+    })) {
+      counts.push(...batch.map((row) => (row.get('comments') as Model[]).length));
+    }
+    expect(counts).to.deep.equal([2, 2, 2, 0]);
+  });
+
+  it('should paginate forwards and backwards with cursors', async () => {
+    const order: [string, 'ASC' | 'DESC'][] = [['publishedAt', 'DESC'], ['rank', 'ASC']];
+    const pages: unknown[][] = [];
+    let page = await manager.paginate('test_paged_articles', { order, limit: 4 });
+    expect(page.hasPrevious).to.equal(false);
+    pages.push(ids(page.rows));
+    while (page.hasNext) {
+      page = await manager.paginate('test_paged_articles', { order, limit: 4, after: page.endCursor });
+      expect(page.hasPrevious).to.equal(true);
+      pages.push(ids(page.rows));
+    }
+    expect(pages).to.deep.equal([
+      [7, 3, 8, 4],
+      [9, 5, 1, 10],
+      [6, 2]
+    ]);
+
+    const previous = await manager.paginate('test_paged_articles', { order, limit: 4, before: page.startCursor });
+    expect(ids(previous.rows)).to.deep.equal([9, 5, 1, 10]);
+    expect(previous.hasNext).to.equal(true);
+    expect(previous.hasPrevious).to.equal(true);
+
+    const first = await manager.paginate('test_paged_articles', { order, limit: 4, before: previous.startCursor });
+    expect(ids(first.rows)).to.deep.equal([7, 3, 8, 4]);
+    expect(first.hasPrevious).to.equal(false);
+  });
+
+  it('should reject invalid cursors', async () => {
+    const page = await manager.paginate('test_paged_articles', { limit: 2 });
+    try {
+      await manager.paginate('test_paged_articles', { order: ['rank'], after: page.endCursor });
+      expect.fail('should have thrown');
+    } catch (e) {
+      expect(e).to.be.instanceOf(PaginationError);
+    }
+    try {
+      await manager.paginate('test_paged_articles', { after: 'not a cursor' });
+      expect.fail('should have thrown');
+    } catch (e) {
+      expect(e).to.be.instanceOf(PaginationError);
+    }
+    const signature = ['id:ASC'];
+    for (const values of [[{ $gt: 0 }], [[1]], [{ $date: 'not a date' }], [{ $date: 0 }], [null]]) {
+      const tampered = Buffer.from(JSON.stringify({ k: signature, v: values })).toString('base64url');
+      try {
+        await manager.paginate('test_paged_articles', { after: tampered });
+        expect.fail('should have thrown');
+      } catch (e) {
+        expect(e).to.be.instanceOf(PaginationError);
+        expect((e as Error).message).to.include('invalid cursor');
+      }
+    }
+    try {
+      await manager.paginate('missing');
+      expect.fail('should have thrown');
+    } catch (e) {
+      expect(e).to.be.instanceOf(ModelNotFoundError);
+    }
+  });
+});
@@ -0,0 +1,140 @@
+import { InvalidManagerConfigError, ModelNotFoundError } from '@storehouse/core';
+import { expect } from 'chai';
+import { randomBytes } from 'node:crypto';
+import { DataTypes, Model, Options } from 'sequelize';
+import { ModelLifecycleEvent, ModelSettings, SequelizeManager } from '../../src/index';
+
+describe('registration', function () {
+  const { logger, params } = this.ctx.kaukau;
+
+  const options: Options = {
+    dialect: params('db.dialect'),
+    host: params('db.host'),
+    port: params('db.port') == 0 ? undefined : params('db.port'),
+    database: params('db.database'),
+    username: params('db.username'),
+    password: params('db.password'),
+    logging: false
+  };
+
+  let manager: SequelizeManager;
+  const events: [string, string][] = [];
+
+  const tagSettings: ModelSettings = {
+    attributes: {
+      id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+      label: { type: DataTypes.STRING, allowNull: false }
+    },
+    options: { modelName: 'test_plugin_tags', timestamps: false },
+    associations: [{ type: 'belongsTo', target: 'test_plugin_genres', options: { as: 'genre' } }]
+  };
+
+  before(async () => {
+    manager = new SequelizeManager({
+      name: 'registration',
+      config: {
+        options,
+        models: [
+          {
+            attributes: {
+              id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+              label: { type: DataTypes.STRING, allowNull: false }
+            },
+            options: { modelName: 'test_plugin_genres', timestamps: false }
+          }
+        ]
+      }
+    });
+    await manager.sync({ force: true });
+    manager.on('modelRegistered', (e: ModelLifecycleEvent) => events.push(['registered', e.name]));
+    manager.on('modelRemoved', (e: ModelLifecycleEvent) => events.push(['removed', e.name]));
+  });
+
+  after(async () => {
+    await manager.drop();
+    await manager.closeConnection();
+    logger.info('closed connection');
+  });
+
+  it('should register a model with its associations and sync it', async () => {
+    const Tags = await manager.registerModel(tagSettings, { sync: true });
+
+    expect(manager.getModel('test_plugin_tags')).to.equal(Tags);
+    expect(Tags.associations.genre.target).to.equal(manager.getModel('test_plugin_genres'));
+    expect(await Tags.count()).to.equal(0);
+    expect((await manager.healthCheck()).details.models).to.include('test_plugin_tags');
+    expect(events).to.deep.equal([['registered', 'test_plugin_tags']]);
+  });
+
+  it('should refuse invalid or duplicate models', async () => {
+    try {
+      await manager.registerModel({
+        ...tagSettings,
+        associations: [{ type: 'hasMany', target: 'test_plugin_unknown' }]
+      });
+      expect.fail('should have thrown');
+    } catch (e) {
+      expect(e).to.be.instanceOf(InvalidManagerConfigError);
+      expect((e as Error).message)
+        .to.include('model "test_plugin_tags" is already registered')
+        .and.to.include('targets model "test_plugin_unknown"');
+    }
+    expect(events).to.have.length(1);
+  });
+
+  it('should unregister a model', async () => {
+    const Genres = manager.getModel('test_plugin_genres');
+    Genres.hasMany(manager.getModel('test_plugin_tags'), { as: 'tags' });
+    await manager.getModel('test_plugin_tags').drop();
+    manager.unregisterModel('test_plugin_tags');
+
+    expect(manager.isDefined('test_plugin_tags')).to.equal(false);
+    expect(Genres.associations).to.not.have.property('tags');
+    expect(() => manager.getModel('test_plugin_tags')).to.throw();
+    expect((await manager.healthCheck()).details.models).to.deep.equal(['test_plugin_genres']);
+    expect(events).to.deep.equal([
+      ['registered', 'test_plugin_tags'],
+      ['removed', 'test_plugin_tags']
+    ]);
+    expect(() => manager.unregisterModel('test_plugin_tags')).to.throw(ModelNotFoundError);
+  });
+
+  it('should detach the hooks of an unregistered model', async () => {
+    const plugins = new SequelizeManager({
+      name: 'registration-hooks',
+      config: {
+        options,
+        cache: {},
+        changeEvents: true,
+        encryption: { keys: { k1: randomBytes(32) }, currentKeyId: 'k1' }
+      }
+    });
+    try {
+      const Notes = await plugins.registerModel(
+        {
+          attributes: {
+            id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+            text: { type: DataTypes.STRING }
+          },
+          options: { modelName: 'test_plugin_notes', timestamps: false },
+          cache: true,
+          audit: true,
+          encrypted: { text: { deterministic: true } }
+        },
+        { sync: true }
+      );
+      await Notes.findAll();
+      expect(plugins.getCacheStats()?.models).to.have.property('test_plugin_notes');
+
+      plugins.unregisterModel('test_plugin_notes');
+      for (const hookType of ['beforeFind', 'beforeBulkUpdate', 'afterCreate', 'afterUpdate', 'afterBulkDestroy'] as const) {
+        expect(Notes.hasHook(hookType), hookType).to.equal(false);
+      }
+      expect(Notes.findAll).to.equal(Model.findAll);
+      expect(Notes.count).to.equal(Model.count);
+      expect(plugins.getCacheStats()?.models).to.deep.equal({});
+    } finally {
+      await plugins.closeConnection();
+    }
+  });
+});
@@ -0,0 +1,116 @@
+import { expect } from 'chai';
+import { ConnectionOptions, Options } from 'sequelize';
+import { SequelizeManager } from '../../src/index';
+
+class ReplicatedManager extends SequelizeManager {
+  down = new Set<number>();
+  slow = new Set<number>();
+
+  protected async probeReplica(config: ConnectionOptions): Promise<void> {
+    const index = this.replicaRouter!.getReplicas().indexOf(config);
+    if (this.slow.has(index)) {
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+    if (this.down.has(index)) {
+      throw new Error(`replica ${index} is down`);
+    }
+    // SQLite has no server to connect to
+    if (this.getDialect() !== 'sqlite') {
+      await super.probeReplica(config);
+    }
+  }
+}
+
+describe('replication', function () {
+  const { logger, params } = this.ctx.kaukau;
+
+  let manager: ReplicatedManager;
+  const useMaster: boolean[] = [];
+
+  before(async () => {
+    const options: Options = {
+      dialect: params('db.dialect'),
+      host: params('db.host'),
+      port: params('db.port') == 0 ? undefined : params('db.port'),
+      database: params('db.database'),
+      username: params('db.username'),
+      password: params('db.password'),
+      logging: (_sql, queryOptions) => useMaster.push(!!(queryOptions as { useMaster?: boolean }).useMaster),
+      replication: { read: [{}, {}], write: {} }
+    };
+    manager = new ReplicatedManager({
+      name: 'replication',
+      config: { options, replication: { failureThreshold: 2 } }
+    });
+  });
+
+  after(async () => {
+    await manager.closeConnection();
+    logger.info('closed connection');
+  });
+
+  it('should report the writer and each read replica', async () => {
+    const health = await manager.healthCheck();
+    expect(health.status).to.equal('healthy');
+    expect(health.details.replication?.writer).to.include({ role: 'write', healthy: true });
+    expect(health.details.replication?.replicas.map((r) => [r.index, r.healthy, r.inRotation])).to.deep.equal([
+      [0, true, true],
+      [1, true, true]
+    ]);
+  });
+
+  it('should drop an unhealthy replica from rotation until it recovers', async () => {
+    manager.down.add(1);
+
+    let health = await manager.healthCheck();
+    expect(health.status).to.equal('degraded');
+    expect(health.details.replication?.replicas[1]).to.include({ healthy: false, inRotation: true });
+
+    health = await manager.healthCheck();
+    expect(health.details.replication?.replicas[1]).to.include({ healthy: false, inRotation: false });
+
+    // reads still work with the remaining replica
+    await manager.query('SELECT 1');
+
+    manager.down.delete(1);
+    const replicas = await manager.checkReplicas();
+    expect(replicas[1]).to.include({ healthy: true, inRotation: true });
+  });
+
+  it('should send reads to the writer within useWriter', async () => {
+    useMaster.length = 0;
+    await manager.query('SELECT 1');
+    await manager.useWriter(() => manager.query('SELECT 1'));
+    expect(useMaster).to.deep.equal([false, true]);
+  });
+
+  it('should send reads to the writer when every replica is down', async () => {
+    manager.down.add(0);
+    manager.down.add(1);
+    await manager.checkReplicas();
+    await manager.checkReplicas();
+
+    useMaster.length = 0;
+    await manager.query('SELECT 1');
+    expect(useMaster).to.deep.equal([true]);
+
+    manager.down.clear();
+    await manager.checkReplicas();
+  });
+
+  it('should report replicas slower than the health check timeout as unhealthy', async () => {
+    manager.slow.add(0);
+    try {
+      const start = Date.now();
+      const health = await manager.healthCheck({ timeout: 100 });
+      expect(Date.now() - start).to.be.below(400);
+      expect(health.status).to.equal('degraded');
+      expect(health.details.replication?.replicas[0]).to.include({ healthy: false });
+      expect(health.details.replication?.replicas[0].error).to.match(/timed out/);
+      expect(health.details.replication?.replicas[1]).to.include({ healthy: true });
+    } finally {
+      manager.slow.clear();
+    }
+    expect((await manager.healthCheck()).status).to.equal('healthy');
+  });
+});
@@ -0,0 +1,124 @@
+import { expect } from 'chai';
+import { DataTypes } from 'sequelize';
+import { DestructiveSyncError, SequelizeManager } from '../../src/index';
+
+describe('schema', function () {
+  const { logger, params } = this.ctx.kaukau;
+
+  let manager: SequelizeManager;
+
+  before(() => {
+    manager = new SequelizeManager({
+      name: 'schema',
+      config: {
+        options: {
+          dialect: params('db.dialect'),
+          host: params('db.host'),
+          port: params('db.port') == 0 ? undefined : params('db.port'),
+          database: params('db.database'),
+          username: params('db.username'),
+          password: params('db.password'),
+          logging: false
+        },
+        models: [
+          {
+            attributes: {
+              id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+              label: { type: DataTypes.STRING, allowNull: false },
+              slug: { type: DataTypes.STRING },
+              title: {
+                type: DataTypes.VIRTUAL,
+                get() {
+                  return `${this.getDataValue('label')}`.toUpperCase();
+                }
+              }
+            },
+            options: { modelName: 'test_genres', timestamps: false, indexes: [{ fields: ['slug'] }] }
+          }
+        ],
+        sync: {
+          mode: 'create-missing'
+        }
+      }
+    });
+  });
+
+  after(async () => {
+    await manager.drop();
+    await manager.closeConnection();
+    logger.info('closed connection');
+  });
+
+  it('should plan the creation of missing tables', async () => {
+    await manager.getModel('test_genres').drop();
+    const changes = (await manager.diffSchema()).filter((c) => c.table === 'test_genres');
+    expect(changes.map((c) => c.type)).to.deep.equal(['createTable']);
+  });
+
+  it('should create missing tables with the configured mode', async () => {
+    await manager.syncSchema();
+    const changes = (await manager.diffSchema()).filter((c) => c.table === 'test_genres');
+    expect(changes).to.deep.equal([]);
+  });
+
+  it('should not plan columns for virtual attributes', async () => {
+    const changes = (await manager.diffSchema()).filter((c) => c.table === 'test_genres');
+    expect(changes).to.deep.equal([]);
+    const columns = await manager.getQueryInterface().describeTable('test_genres');
+    expect(columns).to.not.have.property('title');
+  });
+
+  it('should be healthy in deep health checks of models with virtual attributes', async () => {
+    const health = await manager.healthCheck({ deep: true });
+    expect(health.status).to.equal('healthy');
+    expect(health.details.drift).to.deep.equal([]);
+  });
+
+  it('should plan column and index changes without applying them', async () => {
+    const queryInterface = manager.getQueryInterface();
+    await queryInterface.removeIndex('test_genres', ['slug']);
+    await queryInterface.removeColumn('test_genres', 'slug');
+    await queryInterface.addColumn('test_genres', 'legacy', { type: DataTypes.STRING });
+
+    const changes = (await manager.diffSchema()).filter((c) => c.table === 'test_genres');
+    expect(changes.map((c) => `${c.type}:${c.column || c.expected}`)).to.have.members([
+      'addColumn:slug',
+      'extraColumn:legacy',
+      'addIndex:slug'
+    ]);
+
+    const columns = await queryInterface.describeTable('test_genres');
+    expect(columns).to.have.property('legacy');
+    expect(columns).to.not.have.property('slug');
+  });
+
+  it('should report schema drift in deep health checks', async () => {
+    const health = await manager.healthCheck({ deep: true });
+    expect(health.healthy).to.equal(true);
+    expect(health.status).to.equal('degraded');
+    expect(health.details.drift?.map((c) => `${c.type}:${c.column}`)).to.have.members([
+      'addColumn:slug',
+      'extraColumn:legacy'
+    ]);
+
+    const shallow = await manager.healthCheck();
+    expect(shallow.status).to.equal('healthy');
+  });
+
+  it('should refuse destructive modes unless allowed', async () => {
+    let error: unknown;
+    try {
+      await manager.syncSchema({ mode: 'alter' });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).to.be.instanceOf(DestructiveSyncError);
+
+    await manager.syncSchema({ mode: 'force', allowDestructive: true });
+    const changes = (await manager.diffSchema()).filter((c) => c.table === 'test_genres');
+    expect(changes).to.deep.equal([]);
+
+    const health = await manager.healthCheck({ deep: true });
+    expect(health.status).to.equal('healthy');
+  });
+});
@@ -0,0 +1,91 @@
+import { expect } from 'chai';
+import { DataTypes } from 'sequelize';
+import { SequelizeManager } from '../../src/index';
+
+describe('seeders', function () {
+  const { logger, params } = this.ctx.kaukau;
+
+  let manager: SequelizeManager;
+
+  before(async () => {
+    manager = new SequelizeManager({
+      name: 'seeders',
+      config: {
+        options: {
+          dialect: params('db.dialect'),
+          host: params('db.host'),
+          port: params('db.port') == 0 ? undefined : params('db.port'),
+          database: params('db.database'),
+          username: params('db.username'),
+          password: params('db.password'),
+          logging: false
+        },
+        models: [
+          {
+            attributes: {
+              id: { type: DataTypes.INTEGER, primaryKey: true },
+              name: { type: DataTypes.STRING, allowNull: false }
+            },
+            options: { modelName: 'test_authors', timestamps: false }
+          },
+          {
+            attributes: {
+              id: { type: DataTypes.INTEGER, primaryKey: true },
+              title: { type: DataTypes.STRING, allowNull: false }
+            },
+            options: { modelName: 'test_books', timestamps: false },
+            associations: [
+              { type: 'belongsTo', target: 'test_authors', options: { foreignKey: { name: 'authorId', allowNull: false } } }
+            ]
+          }
+        ],
+        seeders: {
+          tableName: 'test_seeders',
+          environment: 'test',
+          source: [
+            {
+              name: '001-books',
+              data: {
+                test_books: [{ id: 1, title: 'Dune', authorId: 1 }],
+                test_authors: [{ id: 1, name: 'Frank Herbert' }]
+              }
+            },
+            {
+              name: '000-demo-authors',
+              environments: ['demo'],
+              models: ['test_authors'],
+              async run({ models, transaction }) {
+                await models.test_authors.upsert({ id: 2, name: 'Ursula K. Le Guin' }, { transaction });
+              }
+            }
+          ]
+        }
+      }
+    });
+    await manager.sync({ force: true });
+  });
+
+  after(async () => {
+    await manager.drop();
+    await manager.getQueryInterface().dropTable('test_seeders');
+    await manager.closeConnection();
+    logger.info('closed connection');
+  });
+
+  it('should seed the environment in foreign key order', async () => {
+    expect(await manager.seed()).to.deep.equal(['001-books']);
+    expect(await manager.getModel('test_books').count()).to.equal(1);
+    expect(await manager.getModel('test_authors').count()).to.equal(1);
+  });
+
+  it('should skip seeders that already ran', async () => {
+    expect(await manager.seed()).to.deep.equal([]);
+    expect(await manager.seed({ force: true })).to.deep.equal(['001-books']);
+    expect(await manager.getModel('test_books').count()).to.equal(1);
+  });
+
+  it('should only run seeders tagged with the environment', async () => {
+    expect(await manager.seed({ environment: 'demo' })).to.deep.equal(['000-demo-authors']);
+    expect(await manager.getModel('test_authors').count()).to.equal(2);
+  });
+});
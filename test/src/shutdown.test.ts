@@ -0,0 +1,63 @@
+import { expect } from 'chai';
+import { Options } from 'sequelize';
+import { ManagerClosingError, SequelizeManager } from '../../src/index';
+
+describe('graceful shutdown', function () {
+  const { params } = this.ctx.kaukau;
+
+  const options: Options = {
+    dialect: params('db.dialect'),
+    host: params('db.host'),
+    port: params('db.port') == 0 ? undefined : params('db.port'),
+    database: params('db.database'),
+    username: params('db.username'),
+    password: params('db.password'),
+    logging: false
+  };
+
+  it('should wait for active transactions and reject new queries', async () => {
+    const manager = new SequelizeManager({ name: 'shutdown', config: { options, shutdown: { graceful: true } } });
+
+    let committed = false;
+    const work = manager.transaction(async (transaction) => {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      await manager.query('SELECT 1', { transaction });
+      committed = true;
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const closing = manager.closeConnection();
+
+    let error: unknown;
+    try {
+      await manager.query('SELECT 1');
+    } catch (e) {
+      error = e;
+    }
+    expect(error).to.be.instanceOf(ManagerClosingError);
+
+    const report = await closing;
+    await work;
+    expect(committed).to.equal(true);
+    expect(report).to.include({ graceful: true, drained: true, abortedQueries: 0, abortedTransactions: 0 });
+  });
+
+  it('should force-close after the timeout and report what was aborted', async () => {
+    const manager = new SequelizeManager({ name: 'shutdown', config: { options } });
+
+    const transaction = await manager.transaction();
+    const report = await manager.closeConnection({ graceful: true, timeout: 50 });
+    expect(report).to.include({ graceful: true, drained: false, abortedTransactions: 1 });
+    expect(report.duration).to.be.at.least(50);
+
+    // the transaction was neither committed nor rolled back, its connection is gone
+    let error: unknown;
+    try {
+      await transaction.commit();
+    } catch (e) {
+      error = e;
+    }
+    expect(error).to.be.instanceOf(Error);
+    expect((error as Error).message).to.not.include('has been finished');
+  });
+});
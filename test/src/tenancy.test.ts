@@ -0,0 +1,151 @@
+import { Registry } from '@storehouse/core';
+import { AssertionError, expect } from 'chai';
+import { DataTypes, Model } from 'sequelize';
+import { InvalidTenantError, MigrationContext, SequelizeManager, getModel } from '../../src/index';
+
+describe('tenancy', function () {
+  const { logger, params } = this.ctx.kaukau;
+
+  let manager: SequelizeManager;
+  const migrated: (string | undefined)[] = [];
+
+  before(async () => {
+    manager = new SequelizeManager({
+      name: 'tenancy',
+      config: {
+        options: {
+          dialect: params('db.dialect'),
+          host: params('db.host'),
+          port: params('db.port') == 0 ? undefined : params('db.port'),
+          database: params('db.database'),
+          username: params('db.username'),
+          password: params('db.password'),
+          logging: false
+        },
+        models: [
+          {
+            attributes: {
+              id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+              label: { type: DataTypes.STRING, allowNull: false }
+            },
+            options: { modelName: 'test_genres', timestamps: false },
+            associations: [{ type: 'hasMany', target: 'test_films', options: { foreignKey: 'genreId', as: 'films' } }]
+          },
+          {
+            attributes: {
+              id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+              title: { type: DataTypes.STRING, allowNull: false }
+            },
+            options: { modelName: 'test_films', timestamps: false },
+            associations: [{ type: 'belongsTo', target: 'test_genres', options: { foreignKey: 'genreId', as: 'genre' } }]
+          }
+        ],
+        tenancy: {
+          schemaPrefix: 'test_tenant_',
+          migrations: {
+            source: [
+              {
+                name: '001-create-notes',
+                async up({ queryInterface, schema }: MigrationContext) {
+                  migrated.push(schema);
+                  await queryInterface.createTable(
+                    { tableName: 'test_notes', schema: schema! },
+                    { id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true } }
+                  );
+                }
+              }
+            ]
+          }
+        }
+      }
+    });
+    await manager.sync({ force: true });
+  });
+
+  after(async () => {
+    await manager.dropTenant('acme');
+    await manager.dropTenant('globex');
+    await manager.drop();
+    await manager.closeConnection();
+    logger.info('closed connection');
+  });
+
+  it('should bind models to the tenant schema', async () => {
+    const acme = manager.forTenant('acme');
+    expect(manager.forTenant('acme')).to.equal(acme);
+    expect(acme.schema).to.equal('test_tenant_acme');
+    expect(acme.getModel('test_genres')).to.equal(acme.getModel('test_genres'));
+    expect(acme.getModel('test_genres').getTableName()).to.include({
+      tableName: 'test_genres',
+      schema: 'test_tenant_acme'
+    });
+  });
+
+  it('should create, migrate and isolate tenants', async () => {
+    await manager.createTenant('acme', { sync: true, migrate: true });
+    await manager.createTenant('globex', { sync: true });
+
+    await manager.forTenant('acme').getModel('test_genres').create({ label: 'Drama' });
+    expect(await manager.forTenant('acme').getModel('test_genres').count()).to.equal(1);
+    expect(await manager.forTenant('globex').getModel('test_genres').count()).to.equal(0);
+    expect(await manager.getModel('test_genres').count()).to.equal(0);
+
+    expect(migrated).to.deep.equal(['test_tenant_acme']);
+    expect(await manager.migrateTenant('acme')).to.deep.equal([]);
+    expect(await manager.migrateTenant('globex')).to.deep.equal(['001-create-notes']);
+  });
+
+  it('should work with the package-level getModel', async () => {
+    const registry = new Registry();
+    registry.addManager('acme', manager.forTenant('acme'));
+    const Genres = getModel(registry, 'acme', 'test_genres');
+    expect(await Genres.count()).to.equal(1);
+    await registry.closeAllConnections();
+    expect(await manager.isConnected()).to.equal(true);
+  });
+
+  it('should include the associated models of the tenant schema', async () => {
+    const acme = manager.forTenant('acme');
+    const drama = await acme.getModel('test_genres').findOne({ where: { label: 'Drama' } });
+    await acme.getModel('test_films').create({ title: 'Acme film', genreId: drama?.get('id') });
+    const genre = await manager.getModel('test_genres').create({ id: drama?.get('id'), label: 'Public' });
+    await manager.getModel('test_films').create({ title: 'Public film', genreId: genre.get('id') });
+
+    const genres = await acme.getModel('test_genres').findAll({ include: ['films'] });
+    expect(genres.map((g) => (g.get('films') as Model[]).map((f) => f.get('title')))).to.deep.equal([['Acme film']]);
+    const film = await acme.getModel('test_films').findOne({ include: ['genre'] });
+    expect((film?.get('genre') as Model).get('label')).to.equal('Drama');
+  });
+
+  it('should bind the models registered after the scope was created', async () => {
+    const acme = manager.forTenant('acme');
+    const Films = acme.getModel('test_films');
+    manager.unregisterModel('test_films');
+    await manager.registerModel({
+      attributes: {
+        id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        title: { type: DataTypes.STRING, allowNull: false },
+        genreId: { type: DataTypes.INTEGER }
+      },
+      options: { modelName: 'test_films', timestamps: false }
+    });
+    expect(acme.getModel('test_films')).to.not.equal(Films);
+    expect(acme.getModel('test_films').getTableName()).to.include({ schema: 'test_tenant_acme' });
+    expect(await acme.getModel('test_films').count()).to.equal(1);
+  });
+
+  it('should drop a tenant', async () => {
+    await manager.dropTenant('globex');
+    try {
+      await manager.forTenant('globex').getModel('test_genres').count();
+      expect.fail('should have thrown');
+    } catch (e) {
+      expect(e).to.not.be.instanceOf(AssertionError);
+    }
+    expect(await manager.forTenant('acme').getModel('test_genres').count()).to.equal(1);
+  });
+
+  it('should refuse invalid tenant IDs', () => {
+    expect(() => manager.forTenant('acme; DROP TABLE users')).to.throw(InvalidTenantError);
+  });
+});
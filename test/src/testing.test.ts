@@ -0,0 +1,94 @@
+import { InvalidManagerConfigError, Registry } from '@storehouse/core';
+import { expect } from 'chai';
+import { DataTypes, Options } from 'sequelize';
+import { SequelizeManagerSettings, getModel } from '../../src/index';
+import { TestDatabase, TestIsolation } from '../../src/testing';
+
+const config: SequelizeManagerSettings = {
+  models: [
+    {
+      attributes: {
+        id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        label: { type: DataTypes.STRING, allowNull: false }
+      },
+      options: { modelName: 'test_genres', timestamps: false },
+      associations: [{ type: 'hasMany', target: 'test_movies', options: { foreignKey: 'genreId', as: 'movies' } }]
+    },
+    {
+      attributes: {
+        id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        title: { type: DataTypes.STRING, allowNull: false },
+        genreId: { type: DataTypes.INTEGER, allowNull: false, references: { model: 'test_genres', key: 'id' } }
+      },
+      options: { modelName: 'test_movies', timestamps: false }
+    }
+  ]
+};
+
+const fixtures = {
+  test_movies: [{ id: 1, title: 'Alien', genreId: 1 }],
+  test_genres: [{ id: 1, label: 'Horror' }]
+};
+
+(['truncate', 'restore', 'transaction'] as TestIsolation[]).forEach((isolation) => {
+  describe(`testing (${isolation})`, function () {
+    const { params } = this.ctx.kaukau;
+
+    // in-memory SQLite, or the test database for the modes supporting it
+    const options: Options | undefined =
+      params('db.dialect') === 'sqlite' || isolation === 'transaction'
+        ? undefined
+        : {
+            dialect: params('db.dialect'),
+            host: params('db.host'),
+            port: params('db.port') == 0 ? undefined : params('db.port'),
+            database: params('db.database'),
+            username: params('db.username'),
+            password: params('db.password')
+          };
+
+    const registry = new Registry();
+    const db = new TestDatabase({ name: 'testing', config, options, fixtures, registry, isolation });
+
+    before(() => db.setup());
+
+    afterEach(() => db.reset());
+
+    after(() => db.teardown());
+
+    it('should sync, load fixtures and register the manager', async () => {
+      expect(registry.getManager('testing')).to.equal(db.manager);
+      const Movies = getModel(registry, 'testing', 'test_movies');
+      expect(await Movies.count()).to.equal(1);
+
+      await getModel(registry, 'test_genres').create({ label: 'Drama' });
+      await db.manager.withTransaction(() => Movies.create({ title: 'Heat', genreId: 2 }));
+      expect(await Movies.count()).to.equal(2);
+    });
+
+    it('should reset the tables between tests', async () => {
+      const Genres = db.manager.getModel('test_genres');
+      expect(await Genres.count()).to.equal(1);
+      expect(await db.manager.getModel('test_movies').count()).to.equal(1);
+      const created = await Genres.create({ label: 'Comedy' });
+      expect(created.get('id')).to.equal(2);
+    });
+  });
+});
+
+describe('testing teardown', function () {
+  it('should use in-memory SQLite and remove the manager from the registry', async () => {
+    const registry = new Registry();
+    const db = new TestDatabase({ config, registry });
+    expect(db.manager.getDialect()).to.equal('sqlite');
+    await db.setup();
+    await db.teardown();
+    expect(registry.hasManager('test')).to.equal(false);
+  });
+
+  it('should refuse transaction isolation outside of in-memory SQLite', () => {
+    expect(
+      () => new TestDatabase({ config, options: { dialect: 'sqlite', storage: 'test.sqlite' }, isolation: 'transaction' })
+    ).to.throw(InvalidManagerConfigError);
+  });
+});
@@ -0,0 +1,133 @@
+import { expect } from 'chai';
+import { DataTypes, TimeoutError, Transaction } from 'sequelize';
+import { SequelizeManager, TransactionRetryEvent, isTransientError } from '../../src/index';
+
+describe('transactions', function () {
+  const { logger, params } = this.ctx.kaukau;
+
+  let manager: SequelizeManager;
+  const retries: TransactionRetryEvent[] = [];
+
+  before(async () => {
+    manager = new SequelizeManager({
+      name: 'transactions',
+      config: {
+        options: {
+          dialect: params('db.dialect'),
+          host: params('db.host'),
+          port: params('db.port') == 0 ? undefined : params('db.port'),
+          database: params('db.database'),
+          username: params('db.username'),
+          password: params('db.password'),
+          logging: false
+        },
+        models: [
+          {
+            attributes: {
+              id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+              label: { type: DataTypes.STRING, allowNull: false, unique: true }
+            },
+            options: { modelName: 'test_genres', timestamps: false }
+          }
+        ],
+        transactions: {
+          backoff: { initialDelay: 1, maxDelay: 5 },
+          onRetry: (event) => retries.push(event)
+        }
+      }
+    });
+    await manager.sync({ force: true });
+  });
+
+  beforeEach(async () => {
+    retries.length = 0;
+    await manager.getModel('test_genres').destroy({ where: {} });
+  });
+
+  after(async () => {
+    await manager.drop();
+    await manager.closeConnection();
+    logger.info('closed connection');
+  });
+
+  it('should retry transient failures', async () => {
+    const Genres = manager.getModel('test_genres');
+    let attempts = 0;
+    const result = await manager.withTransaction(async (transaction) => {
+      attempts++;
+      await Genres.create({ label: 'Drama' }, { transaction });
+      if (attempts < 3) {
+        throw new TimeoutError(Object.assign(new Error('database is locked'), { sql: 'INSERT' }));
+      }
+      return 'done';
+    });
+
+    expect(result).to.equal('done');
+    expect(attempts).to.equal(3);
+    expect(retries.map((r) => r.attempt)).to.deep.equal([1, 2]);
+    expect(retries[0].manager).to.equal('transactions');
+    expect(await Genres.count()).to.equal(1);
+  });
+
+  it('should not retry permanent failures', async () => {
+    let attempts = 0;
+    try {
+      await manager.withTransaction(async () => {
+        attempts++;
+        throw new Error('permanent');
+      });
+      expect.fail('should have thrown');
+    } catch (e) {
+      expect((e as Error).message).to.equal('permanent');
+    }
+    expect(attempts).to.equal(1);
+    expect(retries).to.have.length(0);
+  });
+
+  it('should give up after the configured retries', async () => {
+    let attempts = 0;
+    try {
+      await manager.withTransaction(
+        async () => {
+          attempts++;
+          throw new Error('busy');
+        },
+        { retries: 2, retryOn: (error) => (error as Error).message === 'busy' }
+      );
+      expect.fail('should have thrown');
+    } catch (e) {
+      expect((e as Error).message).to.equal('busy');
+    }
+    expect(attempts).to.equal(3);
+  });
+
+  it('should nest in a savepoint of the enclosing transaction', async () => {
+    const Genres = manager.getModel('test_genres');
+    await manager.withTransaction(
+      async (transaction) => {
+        await Genres.create({ label: 'Drama' }, { transaction });
+        try {
+          await manager.withTransaction(async (savepoint) => {
+            expect(savepoint).to.not.equal(transaction);
+            await Genres.create({ label: 'Comedy' }, { transaction: savepoint });
+            throw new Error('inner');
+          });
+        } catch (_e) {
+          // the savepoint is rolled back, the enclosing transaction goes on
+        }
+      },
+      { isolationLevel: Transaction.ISOLATION_LEVELS.SERIALIZABLE }
+    );
+
+    const labels = (await Genres.findAll()).map((g) => g.get('label'));
+    expect(labels).to.deep.equal(['Drama']);
+  });
+
+  it('should classify errors per dialect', () => {
+    expect(isTransientError({ parent: { code: 'ER_LOCK_DEADLOCK', errno: 1213 } }, 'mysql')).to.equal(true);
+    expect(isTransientError({ parent: { code: '40001' } }, 'postgres')).to.equal(true);
+    expect(isTransientError({ parent: { code: '40001' } }, 'mysql')).to.equal(false);
+    expect(isTransientError({ parent: { code: 'ECONNRESET' } }, 'postgres')).to.equal(true);
+    expect(isTransientError({ parent: { code: '23505' } }, 'postgres')).to.equal(false);
+  });
+});
@@ -0,0 +1,108 @@
+import { Registry } from '@storehouse/core';
+import { expect } from 'chai';
+import { DataTypes, Model, ModelStatic, QueryTypes } from 'sequelize';
+import { ModelMapOf, ModelsOf, SequelizeManager, defineModel, getModel } from '../../src/index';
+
+class Genre extends Model {
+  declare id: number;
+  declare label: string;
+}
+
+const genreSettings = defineModel({
+  model: Genre,
+  attributes: {
+    id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+    label: { type: DataTypes.STRING, allowNull: false }
+  },
+  options: { modelName: 'test_typed_genres', timestamps: false }
+});
+
+const noteSettings = defineModel({
+  attributes: {
+    id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+    body: { type: DataTypes.TEXT }
+  },
+  options: { modelName: 'test_typed_notes', timestamps: false }
+});
+
+const models = [genreSettings, noteSettings] as const;
+
+type TypedManager = SequelizeManager<ModelMapOf<typeof models>>;
+
+declare module '../../src/index' {
+  interface RegisteredModelMaps {
+    typed: ModelsOf<TypedManager>;
+  }
+}
+
+describe('typed models', function () {
+  const { logger, params } = this.ctx.kaukau;
+
+  let manager: TypedManager;
+  const registry = new Registry();
+
+  before(async () => {
+    manager = new SequelizeManager<ModelMapOf<typeof models>>({
+      name: 'typed',
+      config: {
+        options: {
+          dialect: params('db.dialect'),
+          host: params('db.host'),
+          port: params('db.port') == 0 ? undefined : params('db.port'),
+          database: params('db.database'),
+          username: params('db.username'),
+          password: params('db.password'),
+          logging: false
+        },
+        models: [...models]
+      }
+    });
+    registry.addManager('typed', manager);
+    await manager.sync({ force: true });
+  });
+
+  after(async () => {
+    await manager.drop();
+    await registry.closeAllConnections();
+    logger.info('closed connection');
+  });
+
+  it('should infer the model class from its name', async () => {
+    const Genres: typeof Genre = manager.getModel('test_typed_genres');
+    const genre = await Genres.create({ label: 'Drama' });
+    const label: string = genre.label;
+    expect(label).to.equal('Drama');
+
+    const Notes: ModelStatic<Model> = manager.getModel('test_typed_notes');
+    expect(Notes).to.equal(manager.model('test_typed_notes'));
+
+    // @ts-expect-error unknown model names are rejected
+    expect(() => manager.getModel('test_typed_unknown')).to.throw();
+  });
+
+  it('should infer the model class from the registry', () => {
+    const Genres: typeof Genre = getModel(registry, 'typed', 'test_typed_genres');
+    expect(Genres).to.equal(Genre);
+
+    // @ts-expect-error unknown model names are rejected
+    expect(() => getModel(registry, 'typed', 'test_typed_unknown')).to.throw();
+  });
+
+  it('should keep the typed results of raw queries', async () => {
+    const rows = await manager.query<{ label: string }>('SELECT label FROM test_typed_genres', { type: QueryTypes.SELECT });
+    const labels: string[] = rows.map((row) => row.label);
+    expect(labels).to.deep.equal(['Drama']);
+
+    const genres: Genre[] = await manager.query('SELECT * FROM test_typed_genres', { model: Genre, mapToModel: true });
+    expect(genres[0]).to.be.instanceOf(Genre);
+
+    // @ts-expect-error select queries resolve to an array of rows
+    const row: { label: string } = rows;
+    expect(row).to.have.lengthOf(1);
+  });
+
+  it('should keep the untyped signatures of untyped managers', () => {
+    const untyped: SequelizeManager = manager;
+    expect(untyped.getModel<typeof Genre>('test_typed_genres')).to.equal(Genre);
+  });
+});
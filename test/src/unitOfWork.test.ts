@@ -0,0 +1,138 @@
+import { Storehouse } from '@storehouse/core';
+import { expect } from 'chai';
+import { DataTypes, Options, Transaction, TransactionOptions } from 'sequelize';
+import { SequelizeManager, UnitOfWorkCommitError, getManager, withUnitOfWork } from '../../src/index';
+
+class FailingCommitManager extends SequelizeManager {
+  failCommit = false;
+
+  transaction<T>(options: TransactionOptions, autoCallback: (t: Transaction) => PromiseLike<T>): Promise<T>;
+  transaction<T>(autoCallback: (t: Transaction) => PromiseLike<T>): Promise<T>;
+  transaction(options?: TransactionOptions): Promise<Transaction>;
+  async transaction<T>(
+    optionsOrCallback?: TransactionOptions | ((t: Transaction) => PromiseLike<T>),
+    autoCallback?: (t: Transaction) => PromiseLike<T>
+  ): Promise<T | Transaction> {
+    if (typeof optionsOrCallback === 'function' || autoCallback) {
+      return super.transaction(optionsOrCallback as TransactionOptions, autoCallback!);
+    }
+    const t = await super.transaction(optionsOrCallback);
+    const commit = t.commit.bind(t);
+    t.commit = async () => {
+      if (this.failCommit) {
+        await t.rollback();
+        throw new Error('commit failed');
+      }
+      return commit();
+    };
+    return t;
+  }
+}
+
+describe('unit of work', function () {
+  const { logger, params } = this.ctx.kaukau;
+
+  const options: Options = {
+    dialect: params('db.dialect'),
+    host: params('db.host'),
+    port: params('db.port') == 0 ? undefined : params('db.port'),
+    database: params('db.database'),
+    username: params('db.username'),
+    password: params('db.password'),
+    logging: false
+  };
+
+  const modelSettings = (modelName: string) => ({
+    attributes: {
+      id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+      label: { type: DataTypes.STRING, allowNull: false }
+    },
+    options: { modelName, timestamps: false }
+  });
+
+  before(async () => {
+    Storehouse.add({
+      primary: {
+        type: SequelizeManager,
+        config: { options, models: [modelSettings('test_orders')] }
+      },
+      billing: {
+        type: FailingCommitManager,
+        config: { options, models: [modelSettings('test_invoices')] }
+      }
+    });
+    await getManager(Storehouse, 'primary').sync({ force: true });
+    await getManager(Storehouse, 'billing').sync({ force: true });
+  });
+
+  beforeEach(async () => {
+    getManager<FailingCommitManager>(Storehouse, 'billing').failCommit = false;
+    await getManager(Storehouse, 'primary').getModel('test_orders').destroy({ where: {} });
+    await getManager(Storehouse, 'billing').getModel('test_invoices').destroy({ where: {} });
+  });
+
+  after(async () => {
+    await getManager(Storehouse, 'primary').drop();
+    await getManager(Storehouse, 'billing').drop();
+    await Storehouse.destroy();
+    logger.info('closed connections');
+  });
+
+  it('should commit every transaction', async () => {
+    const Orders = getManager(Storehouse, 'primary').getModel('test_orders');
+    const Invoices = getManager(Storehouse, 'billing').getModel('test_invoices');
+
+    const result = await withUnitOfWork(Storehouse, ['primary', 'billing'], async ({ primary, billing }) => {
+      await Orders.create({ label: 'order' }, { transaction: primary });
+      await Invoices.create({ label: 'invoice' }, { transaction: billing });
+      return 'done';
+    });
+
+    expect(result).to.equal('done');
+    expect(await Orders.count()).to.equal(1);
+    expect(await Invoices.count()).to.equal(1);
+  });
+
+  it('should roll back every transaction if the callback fails', async () => {
+    const Orders = getManager(Storehouse, 'primary').getModel('test_orders');
+    const Invoices = getManager(Storehouse, 'billing').getModel('test_invoices');
+
+    try {
+      await withUnitOfWork(Storehouse, ['primary', 'billing'], async ({ primary, billing }) => {
+        await Orders.create({ label: 'order' }, { transaction: primary });
+        await Invoices.create({ label: 'invoice' }, { transaction: billing });
+        throw new Error('failed');
+      });
+      expect.fail('should have thrown');
+    } catch (e) {
+      expect((e as Error).message).to.equal('failed');
+    }
+
+    expect(await Orders.count()).to.equal(0);
+    expect(await Invoices.count()).to.equal(0);
+  });
+
+  it('should report commit failures', async () => {
+    const Orders = getManager(Storehouse, 'primary').getModel('test_orders');
+    const Invoices = getManager(Storehouse, 'billing').getModel('test_invoices');
+    getManager<FailingCommitManager>(Storehouse, 'billing').failCommit = true;
+
+    let error: UnitOfWorkCommitError | undefined;
+    try {
+      await withUnitOfWork(Storehouse, ['billing', 'primary'], async ({ primary, billing }) => {
+        await Invoices.create({ label: 'invoice' }, { transaction: billing });
+        await Orders.create({ label: 'order' }, { transaction: primary });
+      });
+    } catch (e) {
+      error = e as UnitOfWorkCommitError;
+    }
+
+    expect(error).to.be.instanceOf(UnitOfWorkCommitError);
+    expect(error?.manager).to.equal('billing');
+    expect(error?.committed).to.deep.equal([]);
+    expect(error?.rolledBack).to.deep.equal(['primary']);
+    expect((error?.cause as Error).message).to.equal('commit failed');
+    expect(await Orders.count()).to.equal(0);
+    expect(await Invoices.count()).to.equal(0);
+  });
+});
@@ -0,0 +1,98 @@
+import { InvalidManagerConfigError } from '@storehouse/core';
+import { expect } from 'chai';
+import { DataTypes, Options } from 'sequelize';
+import { ModelSettings, SequelizeManager, SequelizeManagerSettings, validateSettings } from '../../src/index';
+
+describe('validation', function () {
+  const { params } = this.ctx.kaukau;
+
+  const options: Options = {
+    dialect: params('db.dialect'),
+    host: params('db.host'),
+    port: params('db.port') == 0 ? undefined : params('db.port'),
+    database: params('db.database'),
+    username: params('db.username'),
+    password: params('db.password'),
+    logging: false
+  };
+
+  const genres: ModelSettings = {
+    attributes: {
+      id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+      label: DataTypes.STRING(50)
+    },
+    options: { modelName: 'test_genres' }
+  };
+
+  it('should accept a valid configuration', () => {
+    expect(validateSettings({ options, models: [genres] })).to.deep.equal({ valid: true, problems: [] });
+  });
+
+  it('should accept string data types', async () => {
+    const codes: ModelSettings = {
+      attributes: {
+        id: { type: 'INTEGER', primaryKey: true },
+        code: 'VARCHAR(10)'
+      },
+      options: { modelName: 'test_codes', timestamps: false }
+    };
+    expect(validateSettings({ options, models: [codes] })).to.deep.equal({ valid: true, problems: [] });
+
+    const manager = new SequelizeManager({ name: 'string-types', config: { options, models: [codes] } });
+    try {
+      await manager.sync({ force: true });
+      await manager.getModel('test_codes').create({ id: 1, code: 'A1' });
+      expect((await manager.getModel('test_codes').findByPk(1))?.get('code')).to.equal('A1');
+      await manager.drop();
+    } finally {
+      await manager.closeConnection();
+    }
+  });
+
+  it('should list every problem', () => {
+    const config: SequelizeManagerSettings = {
+      options,
+      models: [
+        genres,
+        { attributes: { label: { type: DataTypes.STRING } } },
+        {
+          attributes: {
+            id: { type: DataTypes.INTEGER, primaryKey: true, allowNull: true },
+            code: { type: DataTypes.INTEGER, autoIncrement: true },
+            rank: { type: DataTypes.INTEGER, autoIncrement: true },
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            label: { allowNull: false } as any
+          },
+          options: { modelName: 'test_genres' }
+        }
+      ]
+    };
+    const { valid, problems } = validateSettings(config);
+    expect(valid).to.equal(false);
+    expect(problems).to.deep.equal([
+      'models[1]: model has neither a model class nor options.modelName',
+      'models[2] ("test_genres"): attribute "label" has no type',
+      'models[2] ("test_genres"): only one attribute can be autoIncrement, found code, rank',
+      'models[2] ("test_genres"): primary key attribute "id" cannot allow null',
+      'model "test_genres" is defined more than once (models[0], models[2])'
+    ]);
+  });
+
+  it('should report options unsupported by the dialect', () => {
+    const { problems } = validateSettings({
+      options: { dialect: 'mysql', storage: ':memory:' },
+      models: [{ ...genres, options: { modelName: 'test_genres', engine: 'MYISAM' } }]
+    });
+    expect(problems).to.deep.equal(['options.storage is not supported by mysql, only by sqlite']);
+
+    expect(validateSettings({ options: { dialect: 'sqlite' }, models: [{ ...genres, options: { modelName: 'test_genres', engine: 'MYISAM' } }] }).problems).to.deep.equal([
+      'models[0] ("test_genres"): options.engine is not supported by sqlite'
+    ]);
+  });
+
+  it('should throw when constructing a manager with an invalid configuration', () => {
+    expect(
+      () => new SequelizeManager({ name: 'invalid', config: { options, models: [genres, genres] } })
+    ).to.throw(InvalidManagerConfigError, /1 problem\(s\) in manager "invalid":\n- model "test_genres" is defined more than once/);
+  });
+});